@@ -1,6 +1,43 @@
-import { Notice, requestUrl } from 'obsidian';
-import { sanitizeFilename, truncateTitle } from './utils';
-import type { TitleGeneratorSettings } from './types';
+import { Notice } from 'obsidian';
+
+import { getEnvVariableName, redactSecrets } from './apiKeys';
+import {
+  FALLBACK_CONFIG,
+  STRUCTURED_OUTPUT_CONFIG,
+  TITLE_CONFIG,
+  USAGE_CONFIG,
+} from './constants';
+import { extractNoteContent } from './contentExtractor';
+import { getErrorHandler, TitleGeneratorError } from './errorHandler';
+import { sendApiRequest } from './httpClient';
+import { getLogger, loggedContent } from './logger';
+import { applyProfile } from './profiles';
+import {
+  createEmptyPromptContext,
+  createPromptVariables,
+  renderTemplate,
+} from './promptTemplate';
+import {
+  getProviderAdapter,
+  getProviderApiKey,
+  getProviderModel,
+  isKnownProvider,
+} from './providers';
+import { RateLimiter } from './rateLimiter';
+import { streamApiRequest } from './streamClient';
+import { applyTitleCasing, applyTitleTemplate } from './titleStyle';
+import type {
+  ApiRequestConfig,
+  PromptContext,
+  TitleGeneratorSettings,
+  TitleRequestOptions,
+  TitleResponse,
+  TitleResult,
+  TitleSource,
+  TokenUsage,
+} from './types';
+import type { UsageTracker } from './usageTracker';
+import { stripThinkingBlocks, truncateTitle } from './utils';
 
 /**
  * A service class to handle all AI-powered title generation logic.
@@ -12,102 +49,342 @@ export class AIService {
    */
   private getSettings: () => TitleGeneratorSettings;
 
-  constructor(getSettings: () => TitleGeneratorSettings) {
+  /**
+   * One limiter per provider, shared by every call that goes through this service.
+   */
+  private rateLimiters = new Map<string, RateLimiter>();
+
+  /**
+   * `provider:model` pairs that rejected structured output. They use the
+   * text cleaner until the plugin is reloaded.
+   */
+  private structuredOutputUnsupported = new Set<string>();
+
+  /**
+   * Records token usage and enforces the spending limit, if provided
+   */
+  private usageTracker?: UsageTracker;
+
+  constructor(
+    getSettings: () => TitleGeneratorSettings,
+    usageTracker?: UsageTracker
+  ) {
     this.getSettings = getSettings;
+    this.usageTracker = usageTracker;
   }
 
-  public async generateTitle(noteContent: string): Promise<string> {
-    const settings = this.getSettings();
-    console.log('Starting title generation with settings:', {
+  /**
+   * Generate a title, showing a notice and returning null on failure
+   * @param noteContent The note content to title
+   * @param options Template context and profile for this note
+   */
+  public async generateTitle(
+    noteContent: string,
+    options: TitleRequestOptions = {}
+  ): Promise<TitleResult | null> {
+    const settings = applyProfile(this.getSettings(), options.profile);
+
+    // Validate configuration before proceeding
+    if (!this.isConfigurationValid(settings)) {
+      getLogger().error('Configuration is not valid. Aborting.');
+      return null;
+    }
+
+    try {
+      return await this.requestTitle(noteContent, {
+        ...options,
+        onRefine: (attempt) => {
+          new Notice(`Title still too long. Refining... (Attempt ${attempt})`);
+          options.onRefine?.(attempt);
+        },
+      });
+    } catch (error) {
+      getLogger().error('Title generation failed', error);
+      this.notifyGenerationError(error, settings);
+      return null;
+    }
+  }
+
+  /**
+   * Generate a title without showing notices. Failures are thrown so batch
+   * runs can report them per file.
+   * @param noteContent The note content to title
+   * @param options Template context and profile for this note
+   * @returns Promise with the processed title, possibly empty, and the
+   *   provider that produced it
+   */
+  public async requestTitle(
+    noteContent: string,
+    options: TitleRequestOptions = {}
+  ): Promise<TitleResult> {
+    const settings = applyProfile(this.getSettings(), options.profile);
+    getLogger().debug('Starting title generation with settings', {
+      profile: options.profile?.name,
       provider: settings.aiProvider,
-      model:
-        settings.aiProvider === 'openai'
-          ? settings.openAiModel
-          : settings.aiProvider === 'anthropic'
-          ? settings.anthropicModel
-          : settings.googleModel,
+      model: isKnownProvider(settings.aiProvider)
+        ? getProviderModel(settings, settings.aiProvider)
+        : '',
       maxTitleLength: settings.maxTitleLength,
     });
 
-    // Validate configuration before proceeding
-    if (!this.isConfigurationValid(settings)) {
-      console.error('Configuration is not valid. Aborting.');
-      return '';
+    const configurationProblem = this.getConfigurationProblem(settings);
+    if (configurationProblem) {
+      throw getErrorHandler().createConfigurationError(configurationProblem);
     }
 
-    const content = noteContent.slice(0, settings.maxContentLength);
-    const initialPrompt = settings.customPrompt.replace(
-      '{max_length}',
-      settings.maxTitleLength.toString()
+    const content = extractNoteContent(
+      noteContent,
+      settings.maxContentLength,
+      settings.contentSelection
+    );
+    const promptContext = options.context ?? createEmptyPromptContext(settings);
+    const { value: title, ...source } = await this.withFallback(
+      settings,
+      (providerSettings) =>
+        this.requestRawTitle(content, promptContext, providerSettings, options)
     );
 
-    try {
-      const maxAttempts = 3; // 1 initial call + 2 retries
-      let title = '';
-
-      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-        let currentPrompt: string;
-        let currentContent: string;
-
-        if (attempt === 1) {
-          // First attempt: use the initial prompt
-          console.log(`Title generation attempt ${attempt}/${maxAttempts}`);
-          currentPrompt = initialPrompt;
-          currentContent = content;
-        } else {
-          // Retry attempts: use the refinement prompt
-          new Notice(`Title still too long. Refining... (Attempt ${attempt})`);
-          console.log(`Title still too long. Refining... (Attempt ${attempt})`);
-          currentPrompt = settings.refinePrompt
-            .replace('{max_length}', settings.maxTitleLength.toString())
-            .replace('{title}', title); // Use the previous (long) title
-          currentContent = ''; // No main content needed for refinement
-        }
+    const processedTitle = this.finalizeTitle(title, settings);
+    getLogger().debug('Final processed title', loggedContent(processedTitle));
+    return { title: processedTitle, ...source };
+  }
 
-        const rawTitle = await this.callAI(currentPrompt, currentContent);
-        title = this.cleanAIResponse(rawTitle);
-        console.log(`Attempt ${attempt} raw title:`, rawTitle);
-        console.log(`Attempt ${attempt} cleaned title:`, title);
+  /**
+   * Ask one provider for a title, refining it while it is too long
+   * @returns The title before casing, templates and truncation
+   */
+  private async requestRawTitle(
+    content: string,
+    promptContext: PromptContext,
+    settings: TitleGeneratorSettings,
+    options: TitleRequestOptions
+  ): Promise<string> {
+    const initialPrompt = renderTemplate(
+      settings.customPrompt,
+      createPromptVariables(promptContext, settings)
+    );
 
-        // If the title is valid, break the loop
-        if (title.length > 0 && title.length <= settings.maxTitleLength) {
-          console.log(`Valid title found on attempt ${attempt}.`);
-          break;
-        }
+    const maxAttempts = 3; // 1 initial call + 2 retries
+    let title = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let currentPrompt: string;
+      let currentContent: string;
+
+      if (attempt === 1) {
+        // First attempt: use the initial prompt
+        getLogger().debug(`Title generation attempt ${attempt}/${maxAttempts}`);
+        currentPrompt = initialPrompt;
+        currentContent = content;
+      } else {
+        // Retry attempts: use the refinement prompt
+        options.onRefine?.(attempt);
+        getLogger().debug(
+          `Title still too long. Refining... (Attempt ${attempt})`
+        );
+        // Use the previous (long) title
+        currentPrompt = renderTemplate(
+          settings.refinePrompt,
+          createPromptVariables(promptContext, settings, { title })
+        );
+        currentContent = ''; // No main content needed for refinement
       }
 
-      // Final processing
-      let processedTitle = title;
-      if (settings.lowerCaseTitles) {
-        processedTitle = processedTitle.toLowerCase();
+      const answer = await this.callAIForTitles(
+        currentPrompt,
+        currentContent,
+        settings,
+        options,
+        STRUCTURED_OUTPUT_CONFIG.PROMPT
+      );
+      if (typeof answer === 'string') {
+        title = this.cleanAIResponse(answer);
+        getLogger().debug(
+          `Attempt ${attempt} raw title`,
+          loggedContent(answer)
+        );
+        getLogger().debug(
+          `Attempt ${attempt} cleaned title`,
+          loggedContent(title)
+        );
+      } else {
+        title = answer.title;
+        getLogger().debug(
+          `Attempt ${attempt} structured answer`,
+          loggedContent(JSON.stringify(answer))
+        );
       }
-      if (settings.removeForbiddenChars) {
-        processedTitle = sanitizeFilename(processedTitle);
+
+      // If the title is valid, break the loop
+      if (title.length > 0 && title.length <= settings.maxTitleLength) {
+        getLogger().debug(`Valid title found on attempt ${attempt}`);
+        break;
       }
+    }
+    return title;
+  }
 
-      console.log('Final processed title:', processedTitle);
-      // Final safeguard truncation
-      return truncateTitle(processedTitle, settings.maxTitleLength);
+  /**
+   * Ask the AI for several alternative titles in a single call.
+   * @param noteContent The note content to title
+   * @param count How many candidates to request
+   * @param options Template context and profile for this note
+   * @returns Promise with distinct, processed titles (may be fewer than requested)
+   */
+  public async generateTitleCandidates(
+    noteContent: string,
+    count: number,
+    options: TitleRequestOptions = {}
+  ): Promise<string[]> {
+    const settings = applyProfile(this.getSettings(), options.profile);
+
+    if (!this.isConfigurationValid(settings)) {
+      getLogger().error('Configuration is not valid. Aborting.');
+      return [];
+    }
+
+    const content = extractNoteContent(
+      noteContent,
+      settings.maxContentLength,
+      settings.contentSelection
+    );
+    const maxLength = settings.maxTitleLength.toString();
+    const promptContext = options.context ?? createEmptyPromptContext(settings);
+    const basePrompt = renderTemplate(
+      settings.customPrompt,
+      createPromptVariables(promptContext, settings)
+    );
+    const structuredInstructions =
+      STRUCTURED_OUTPUT_CONFIG.CANDIDATES_PROMPT.replace(
+        '{count}',
+        (count - 1).toString()
+      ).replace('{max_length}', maxLength);
+    const textInstructions = TITLE_CONFIG.CANDIDATES_PROMPT.replace(
+      '{count}',
+      count.toString()
+    ).replace('{max_length}', maxLength);
+
+    try {
+      const { value: answer } = await this.withFallback(
+        settings,
+        (providerSettings) =>
+          this.callAIForTitles(
+            basePrompt,
+            content,
+            providerSettings,
+            options,
+            structuredInstructions,
+            textInstructions
+          )
+      );
+      getLogger().debug(
+        'Raw candidates response',
+        loggedContent(
+          typeof answer === 'string' ? answer : JSON.stringify(answer)
+        )
+      );
+
+      const lines =
+        typeof answer === 'string'
+          ? stripThinkingBlocks(answer)
+              .split('\n')
+              .map((line) => line.replace(TITLE_CONFIG.LIST_MARKER, ''))
+              .map((line) => this.cleanAIResponse(line))
+          : [answer.title, ...answer.alternatives];
+
+      const seen = new Set<string>();
+      const candidates: string[] = [];
+      lines
+        .filter((line) => line.length > 0)
+        .forEach((line) => {
+          const title = this.finalizeTitle(line, settings);
+          if (!seen.has(title.toLowerCase()) && candidates.length < count) {
+            seen.add(title.toLowerCase());
+            candidates.push(title);
+          }
+        });
+
+      getLogger().debug(
+        'Processed title candidates',
+        candidates.map((candidate) => loggedContent(candidate))
+      );
+      return candidates;
     } catch (error) {
-      console.error('Title Generation Error:', error);
+      getLogger().error('Title candidates failed', error);
+      this.notifyGenerationError(error, settings);
+      return [];
+    }
+  }
 
-      // Provide more helpful error messages
-      if (error.message.includes('API key is not set')) {
-        new Notice(
-          `Please set your ${settings.aiProvider.toUpperCase()} API key in plugin settings.`,
-          8000
-        );
-      } else if (error.message.includes('API error')) {
-        new Notice(
-          `AI service error: ${error.message}. Check your API key and internet connection.`,
-          6000
+  /**
+   * Run a request against the active provider, then against each configured
+   * fallback provider while the failures match the fallback triggers
+   * @param request Sends the request with the given provider's settings
+   */
+  private async withFallback<T>(
+    settings: TitleGeneratorSettings,
+    request: (providerSettings: TitleGeneratorSettings) => Promise<T>
+  ): Promise<{ value: T } & TitleSource> {
+    const chain = this.getProviderChain(settings);
+    for (let index = 0; ; index++) {
+      const providerSettings = chain[index];
+      const provider = providerSettings.aiProvider;
+      const model = getProviderModel(providerSettings, provider);
+      try {
+        const value = await request(providerSettings);
+        if (index > 0) {
+          getLogger().info(
+            `Title generated by fallback provider ${getProviderAdapter(provider).name} (${model})`
+          );
+        }
+        return { value, provider, model };
+      } catch (error) {
+        const next = chain[index + 1];
+        if (!next || !this.shouldFallBack(error, settings)) {
+          throw error;
+        }
+        getLogger().warn(
+          `${getProviderAdapter(provider).name} failed (${(error as TitleGeneratorError).code}), trying ${getProviderAdapter(next.aiProvider).name}`
         );
-      } else {
-        new Notice(`Title generation failed: ${error.message}`, 5000);
       }
+    }
+  }
+
+  /**
+   * Settings for the active provider followed by those of each configured
+   * fallback provider. Fallbacks without a key or model are left out.
+   */
+  private getProviderChain(
+    settings: TitleGeneratorSettings
+  ): TitleGeneratorSettings[] {
+    const fallbacks = settings.fallbackProviders
+      .filter(
+        (provider, index, providers) =>
+          isKnownProvider(provider) &&
+          provider !== settings.aiProvider &&
+          providers.indexOf(provider) === index
+      )
+      .map((provider) => ({ ...settings, aiProvider: provider }))
+      .filter((fallback) => !this.getConfigurationProblem(fallback));
+    return [settings, ...fallbacks];
+  }
 
-      return ''; // Return empty string on error
+  /**
+   * Whether a failure is one of the configured fallback triggers. Cancelled
+   * requests never fall back.
+   */
+  private shouldFallBack(
+    error: unknown,
+    settings: TitleGeneratorSettings
+  ): boolean {
+    if (!(error instanceof TitleGeneratorError)) {
+      return false;
     }
+    return settings.fallbackTriggers.some((trigger) =>
+      (FALLBACK_CONFIG.TRIGGER_CODES[trigger] as readonly string[]).includes(
+        error.code
+      )
+    );
   }
 
   /**
@@ -118,207 +395,422 @@ export class AIService {
    * @returns Promise with AI response
    */
   async makeAICall(prompt: string, content: string = ''): Promise<string> {
-    return await this.callAI(prompt, content);
+    return this.callAI(prompt, content, this.getSettings());
   }
 
-  private isConfigurationValid(settings: TitleGeneratorSettings): boolean {
-    switch (settings.aiProvider) {
-      case 'openai':
-        if (!settings.openAiApiKey.trim()) {
-          new Notice(
-            'OpenAI API key is not set. Please configure it in plugin settings.',
-            8000
-          );
-          return false;
-        }
-        if (!settings.openAiModel) {
-          new Notice(
-            'OpenAI model is not selected. Please select a model in the plugin settings.',
-            8000
-          );
-          return false;
-        }
-        break;
-      case 'anthropic':
-        if (!settings.anthropicApiKey.trim()) {
-          new Notice(
-            'Anthropic API key is not set. Please configure it in plugin settings.',
-            8000
-          );
-          return false;
-        }
-        if (!settings.anthropicModel) {
-          new Notice(
-            'Anthropic model is not selected. Please select a model in the plugin settings.',
-            8000
-          );
-          return false;
-        }
-        break;
-      case 'google':
-        if (!settings.googleApiKey.trim()) {
-          new Notice(
-            'Google Gemini API key is not set. Please configure it in plugin settings.',
-            8000
-          );
-          return false;
-        }
-        if (!settings.googleModel) {
-          new Notice(
-            'Google Gemini model is not selected. Please select a model in the plugin settings.',
-            8000
-          );
-          return false;
-        }
-        break;
-      default:
-        new Notice(
-          'Invalid AI provider selected. Please check plugin settings.',
-          5000
-        );
-        return false;
-    }
-    return true;
+  /**
+   * Wrap a title in the prefix/suffix template for use as a filename.
+   * Headings, frontmatter and duplicate detection use the bare title.
+   * @param options Template context and profile for the note
+   */
+  public formatFileName(
+    title: string,
+    options: TitleRequestOptions = {}
+  ): string {
+    const settings = applyProfile(this.getSettings(), options.profile);
+    return applyTitleTemplate(
+      settings.titleTemplate,
+      title,
+      createPromptVariables(
+        options.context ?? createEmptyPromptContext(settings),
+        settings
+      )
+    );
   }
 
-  private async callAI(prompt: string, content: string): Promise<string> {
-    const settings = this.getSettings();
-    const fullPrompt = `${prompt}\n\n${content}`.trim();
+  /**
+   * Apply casing and the length limit. Forbidden characters are removed and
+   * the title template added only when the title becomes a filename.
+   */
+  private finalizeTitle(
+    title: string,
+    settings: TitleGeneratorSettings
+  ): string {
+    const casedTitle = applyTitleCasing(
+      title,
+      settings.titleCasing,
+      settings.preserveAcronyms
+    );
+    return truncateTitle(casedTitle.trim(), settings.maxTitleLength);
+  }
 
-    switch (settings.aiProvider) {
-      case 'openai':
-        return this.callOpenAI(fullPrompt);
-      case 'anthropic':
-        return this.callAnthropic(fullPrompt);
-      case 'google':
-        return this.callGoogle(fullPrompt);
-      default:
-        throw new Error('Unsupported AI provider selected.');
+  /**
+   * Show a notice explaining why generation failed
+   */
+  private notifyGenerationError(
+    error: any,
+    settings: TitleGeneratorSettings
+  ): void {
+    // Stopping generation is not a failure worth a warning
+    if (error instanceof TitleGeneratorError && error.code === 'CANCELLED') {
+      return;
     }
-  }
 
-  private async callOpenAI(prompt: string): Promise<string> {
-    const settings = this.getSettings();
-    if (!settings.openAiApiKey) {
-      throw new Error('OpenAI API key is not set.');
+    // Request failures from the HTTP layer already carry a user-facing message
+    if (error instanceof TitleGeneratorError) {
+      getErrorHandler().handleError(error, {
+        context: 'Title generation',
+        provider: settings.aiProvider,
+      });
+      return;
     }
-    const response = await requestUrl({
-      url: 'https://api.openai.com/v1/chat/completions',
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${settings.openAiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: settings.openAiModel,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: settings.temperature,
-      }),
-    });
 
-    if (response.status !== 200) {
-      throw new Error(`OpenAI API error (${response.status}): ${response.text}`);
+    // Provide more helpful error messages
+    if (error.message.includes('API key is not set')) {
+      new Notice(
+        `Please set your ${settings.aiProvider.toUpperCase()} API key in plugin settings.`,
+        8000
+      );
+    } else if (error.message.includes('API error')) {
+      new Notice(
+        `AI service error: ${redactSecrets(error.message)}. Check your API key and internet connection.`,
+        6000
+      );
+    } else {
+      new Notice(
+        `Title generation failed: ${redactSecrets(error.message)}`,
+        5000
+      );
     }
-    const data = response.json;
-    return data.choices[0]?.message?.content?.trim() ?? '';
   }
 
-  private async callAnthropic(prompt: string): Promise<string> {
-    const settings = this.getSettings();
-    if (!settings.anthropicApiKey) {
-      throw new Error('Anthropic API key is not set.');
+  private isConfigurationValid(settings: TitleGeneratorSettings): boolean {
+    const problem = this.getConfigurationProblem(settings);
+    if (problem) {
+      new Notice(problem, 8000);
+      return false;
     }
-    const response = await requestUrl({
-      url: 'https://api.anthropic.com/v1/messages',
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': settings.anthropicApiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: settings.anthropicModel,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: settings.temperature,
-      }),
-    });
+    return true;
+  }
 
-    if (response.status !== 200) {
-      throw new Error(
-        `Anthropic API error (${response.status}): ${response.text}`
+  /**
+   * Describe what is missing from the provider configuration, if anything
+   */
+  getConfigurationProblem(settings: TitleGeneratorSettings): string | null {
+    if (!isKnownProvider(settings.aiProvider)) {
+      return 'Invalid AI provider selected. Please check plugin settings.';
+    }
+
+    const adapter = getProviderAdapter(settings.aiProvider);
+    if (
+      adapter.requiresApiKey &&
+      !getProviderApiKey(settings, settings.aiProvider)
+    ) {
+      const variable = getEnvVariableName(
+        settings[adapter.apiKeyField] as string
       );
+      return variable !== null
+        ? `${adapter.name} API key variable ${variable} is not set in the environment.`
+        : `${adapter.name} API key is not set. Please configure it in plugin settings.`;
     }
-    const data = response.json;
-    return data.content[0]?.text?.trim() ?? '';
+    if (!getProviderModel(settings, settings.aiProvider)) {
+      return `${adapter.name} model is not selected. Please select a model in the plugin settings.`;
+    }
+    return null;
   }
 
-  private async callGoogle(prompt: string): Promise<string> {
-    const settings = this.getSettings();
-    if (!settings.googleApiKey) {
-      throw new Error('Google Gemini API key is not set.');
+  private getRateLimiter(provider: string): RateLimiter {
+    let limiter = this.rateLimiters.get(provider);
+    if (!limiter) {
+      limiter = new RateLimiter();
+      this.rateLimiters.set(provider, limiter);
     }
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${settings.googleModel}:generateContent?key=${settings.googleApiKey}`;
-
-    const requestBody = {
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: settings.temperature,
-      },
-    };
+    return limiter;
+  }
 
-    console.log('Calling Google Gemini API.');
-    console.log(
-      'Gemini Request URL (key hidden):',
-      url.replace(/key=([^&]+)/, 'key=...')
+  private async callAI(
+    prompt: string,
+    content: string,
+    settings: TitleGeneratorSettings,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const fullPrompt = `${prompt}\n\n${content}`.trim();
+    const adapter = getProviderAdapter(settings.aiProvider);
+    const response = await this.sendRequest(
+      adapter.buildChatRequest(fullPrompt, settings),
+      settings,
+      signal
     );
-    console.log('Gemini Request Body:', JSON.stringify(requestBody, null, 2));
-
-    const response = await requestUrl({
-      url,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+    return adapter.parseChatResponse(response);
+  }
+
+  /**
+   * Stream a text completion, reporting the cleaned title as it grows
+   * @returns The raw answer, or undefined if the stream could not be opened
+   */
+  private async streamAI(
+    prompt: string,
+    content: string,
+    settings: TitleGeneratorSettings,
+    onPartialTitle: (partialTitle: string) => void,
+    signal?: AbortSignal
+  ): Promise<string | undefined> {
+    const adapter = getProviderAdapter(settings.aiProvider);
+    if (!adapter.buildStreamRequest || !adapter.parseStreamEvent) {
+      return undefined;
+    }
 
-    console.log('Gemini Response Status:', response.status);
-    console.log('Gemini Raw Response Body:', response.text);
+    const fullPrompt = `${prompt}\n\n${content}`.trim();
+    let answer = '';
+    let usage: TokenUsage | undefined;
+    let opened = false;
+    try {
+      await this.acquireRequestSlot(settings, signal);
+      await streamApiRequest(
+        adapter.buildStreamRequest(fullPrompt, settings),
+        settings.aiProvider,
+        (event) => {
+          opened = true;
+          const eventUsage = adapter.parseUsage(event);
+          if (eventUsage) {
+            usage = {
+              inputTokens: eventUsage.inputTokens || (usage?.inputTokens ?? 0),
+              outputTokens:
+                eventUsage.outputTokens || (usage?.outputTokens ?? 0),
+            };
+          }
+          const text = adapter.parseStreamEvent?.(event) ?? '';
+          if (text) {
+            answer += text;
+            // Stays empty while a reasoning model is still thinking
+            onPartialTitle(this.cleanAIResponse(answer));
+          }
+        },
+        signal
+      );
+    } catch (error) {
+      // CORS or proxy setups can block fetch while requestUrl still works
+      if (
+        error instanceof TitleGeneratorError &&
+        error.code === 'NETWORK_ERROR' &&
+        !answer
+      ) {
+        getLogger().warn(
+          'Could not open stream, falling back to a regular request',
+          error.message
+        );
+        return undefined;
+      }
+      // A stream that was stopped or broke off is billed for what it sent,
+      // usually before the provider reported the token counts
+      if (opened) {
+        const inputTokens = Math.ceil(
+          fullPrompt.length / USAGE_CONFIG.CHARS_PER_TOKEN
+        );
+        const outputTokens = Math.ceil(
+          answer.length / USAGE_CONFIG.CHARS_PER_TOKEN
+        );
+        this.recordUsage(settings, {
+          inputTokens: usage?.inputTokens || inputTokens,
+          outputTokens: Math.max(usage?.outputTokens ?? 0, outputTokens),
+        });
+      }
+      throw error;
+    }
+    this.recordUsage(settings, usage);
+    return answer;
+  }
 
-    if (response.status !== 200) {
-      console.error('Google Gemini API error. Response:', response.text);
-      throw new Error(
-        `Google Gemini API error (${response.status}): ${response.text}`
+  /**
+   * Ask for titles as JSON when the provider supports structured output.
+   * Falls back to a plain text request when it does not.
+   * @param structuredInstructions Appended to the prompt when asking for JSON
+   * @param textInstructions Appended to the prompt when asking for text
+   * @returns The structured answer, or raw text for the heuristic cleaner
+   */
+  private async callAIForTitles(
+    prompt: string,
+    content: string,
+    settings: TitleGeneratorSettings,
+    options: TitleRequestOptions,
+    structuredInstructions: string,
+    textInstructions = ''
+  ): Promise<TitleResponse | string> {
+    const adapter = getProviderAdapter(settings.aiProvider);
+    const modelKey = `${settings.aiProvider}:${getProviderModel(settings, settings.aiProvider)}`;
+    const textPrompt = textInstructions
+      ? `${prompt}\n\n${textInstructions}`
+      : prompt;
+
+    // Streamed answers are shown as they arrive, so they are requested as
+    // text rather than as JSON
+    if (
+      options.onPartialTitle &&
+      settings.streamTitles &&
+      adapter.capabilities.streaming
+    ) {
+      const streamed = await this.streamAI(
+        textPrompt,
+        content,
+        settings,
+        options.onPartialTitle,
+        options.signal
       );
+      if (streamed !== undefined) {
+        return streamed;
+      }
     }
-    const data = response.json;
 
     if (
-      !data.candidates ||
-      !data.candidates[0] ||
-      !data.candidates[0].content ||
-      !data.candidates[0].content.parts ||
-      !data.candidates[0].content.parts[0]
+      settings.useStructuredOutput &&
+      adapter.capabilities.structuredOutput &&
+      adapter.buildStructuredRequest &&
+      adapter.parseStructuredResponse &&
+      !this.structuredOutputUnsupported.has(modelKey)
     ) {
-      console.warn('Gemini response is missing expected content.', data);
-      // Check for safety ratings, which might indicate a blocked response
-      if (data.candidates?.[0]?.finishReason === 'SAFETY') {
-        new Notice(
-          'Title generation blocked by Google for safety reasons.',
-          6000
+      const fullPrompt =
+        `${prompt}\n\n${structuredInstructions}\n\n${content}`.trim();
+      try {
+        const response = await this.sendRequest(
+          adapter.buildStructuredRequest(
+            fullPrompt,
+            settings,
+            STRUCTURED_OUTPUT_CONFIG.SCHEMA
+          ),
+          settings,
+          options.signal
+        );
+        const answer = this.toTitleResponse(
+          adapter.parseStructuredResponse(response)
+        );
+        if (answer) {
+          return answer;
+        }
+        // Servers that ignore the schema answer in plain text
+        getLogger().warn(
+          'Structured answer is not valid, using the text cleaner'
         );
-        console.error(
-          'Gemini response blocked due to safety ratings:',
-          data.candidates[0].safetyRatings
+        return adapter.parseChatResponse(response);
+      } catch (error) {
+        if (!this.isStructuredOutputRejection(error)) {
+          throw error;
+        }
+        getLogger().warn(
+          `${modelKey} rejected structured output, falling back to text`,
+          error.message
         );
+        this.structuredOutputUnsupported.add(modelKey);
       }
-      return '';
     }
 
-    const extractedText =
-      data.candidates[0].content.parts[0].text.trim() ?? '';
-    console.log('Extracted text from Gemini:', extractedText);
-    return extractedText;
+    return this.callAI(textPrompt, content, settings, options.signal);
+  }
+
+  /**
+   * Whether a request failed because the model does not support the schema
+   * options, as opposed to a problem with the prompt or the key
+   */
+  private isStructuredOutputRejection(
+    error: unknown
+  ): error is TitleGeneratorError {
+    return (
+      error instanceof TitleGeneratorError &&
+      (
+        STRUCTURED_OUTPUT_CONFIG.UNSUPPORTED_STATUS_CODES as readonly number[]
+      ).includes(error.statusCode ?? 0) &&
+      STRUCTURED_OUTPUT_CONFIG.UNSUPPORTED_ERROR_PATTERN.test(error.message)
+    );
+  }
+
+  /**
+   * Send a request once the rate limiter allows it
+   * @returns The parsed JSON body
+   */
+  private async sendRequest(
+    request: ApiRequestConfig,
+    settings: TitleGeneratorSettings,
+    signal?: AbortSignal
+  ): Promise<any> {
+    await this.acquireRequestSlot(settings, signal);
+    this.throwIfCancelled(settings, signal);
+
+    const response = await sendApiRequest(request, settings.aiProvider, signal);
+    this.recordUsage(
+      settings,
+      getProviderAdapter(settings.aiProvider).parseUsage(response.json)
+    );
+    // requestUrl cannot be aborted, so a stopped request is dropped here
+    this.throwIfCancelled(settings, signal);
+    return response.json;
+  }
+
+  /**
+   * Check the key and the spending limit, then wait for the provider's rate
+   * limiter
+   * @param signal Aborting it ends the wait with a CANCELLED error
+   */
+  private async acquireRequestSlot(
+    settings: TitleGeneratorSettings,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const adapter = getProviderAdapter(settings.aiProvider);
+    if (
+      adapter.requiresApiKey &&
+      !getProviderApiKey(settings, settings.aiProvider)
+    ) {
+      throw new Error(`${adapter.name} API key is not set.`);
+    }
+    if (this.usageTracker?.isBudgetExceeded()) {
+      throw getErrorHandler().createBudgetExceededError(
+        settings.budgetLimit,
+        settings.budgetPeriod,
+        settings.aiProvider
+      );
+    }
+
+    await this.getRateLimiter(settings.aiProvider).acquire(
+      settings.requestsPerMinute?.[settings.aiProvider] ?? 0,
+      signal
+    );
+  }
+
+  private recordUsage(
+    settings: TitleGeneratorSettings,
+    usage: TokenUsage | undefined
+  ): void {
+    if (!usage || !this.usageTracker) {
+      return;
+    }
+    this.usageTracker.record(
+      settings.aiProvider,
+      getProviderModel(settings, settings.aiProvider),
+      usage
+    );
+  }
+
+  private throwIfCancelled(
+    settings: TitleGeneratorSettings,
+    signal?: AbortSignal
+  ): void {
+    if (signal?.aborted) {
+      throw getErrorHandler().createCancelledError(settings.aiProvider);
+    }
+  }
+
+  /**
+   * Check the shape of a structured answer and tidy its strings
+   */
+  private toTitleResponse(value: unknown): TitleResponse | undefined {
+    if (!value || typeof value !== 'object') {
+      return undefined;
+    }
+
+    const { title, alternatives, language } = value as Record<string, unknown>;
+    const tidy = (text: string) => text.replace(/\s+/g, ' ').trim();
+    if (typeof title !== 'string' || !tidy(title)) {
+      return undefined;
+    }
+
+    return {
+      title: tidy(title),
+      alternatives: Array.isArray(alternatives)
+        ? alternatives
+            .filter((item): item is string => typeof item === 'string')
+            .map(tidy)
+            .filter((item) => item.length > 0)
+        : [],
+      language: typeof language === 'string' ? tidy(language) : '',
+    };
   }
 
   /**
@@ -336,8 +828,8 @@ export class AIService {
       textToClean = thinkMatch[1].trim();
     }
 
-    // Remove any remaining thinking blocks.
-    textToClean = textToClean.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+    // Remove any remaining thinking blocks, including unbalanced ones.
+    textToClean = stripThinkingBlocks(textToClean);
 
     // Find the most likely candidate for the title.
     // The best candidate is usually on its own line.
@@ -361,7 +853,7 @@ export class AIService {
 
     // If no good candidate was found, fall back to the first line.
     if (!bestCandidate && lines.length > 0) {
-      bestCandidate = lines[0];
+      [bestCandidate] = lines;
     }
 
     // Final polish: remove common prefixes and quotes.
@@ -369,8 +861,12 @@ export class AIService {
       /^(Title:|Generated title:|Suggested title:|The title:|A title:|Here's the title:)\s*/i,
       ''
     );
-    finalTitle = finalTitle.replace(/["']/g, '');
+    // Drop wrapping quotes but keep apostrophes inside the title
+    finalTitle = finalTitle
+      .trim()
+      .replace(/^(["'“‘])(.*)(["'”’])$/, '$2')
+      .replace(/["“”]/g, '');
 
     return finalTitle.trim();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+import type { App } from 'obsidian';
+
+import { API_KEY_CONFIG } from './constants';
+import { getProviderAdapter, getProviderIds } from './providers';
+import type { TitleGeneratorSettings } from './types';
+
+/**
+ * Keeps API keys out of the synced plugin data when they are stored on this
+ * device only. Keys then live in the vault's local storage, which Obsidian
+ * does not sync, and are blanked in the data written to `data.json`.
+ */
+export class ApiKeyStore {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Fill in the keys kept on this device after settings were loaded
+   */
+  load(settings: TitleGeneratorSettings): void {
+    if (settings.apiKeyStorage !== 'device') {
+      return;
+    }
+    this.getKeyFields().forEach((field) => {
+      const stored = this.app.loadLocalStorage(this.getStorageName(field));
+      (settings as any)[field] = typeof stored === 'string' ? stored : '';
+    });
+  }
+
+  /**
+   * Get the data to write to `data.json`. With device storage the keys are
+   * written to local storage and left out; otherwise local copies are removed.
+   */
+  prepareForSave(settings: TitleGeneratorSettings): TitleGeneratorSettings {
+    const device = settings.apiKeyStorage === 'device';
+    const data = { ...settings };
+    this.getKeyFields().forEach((field) => {
+      this.app.saveLocalStorage(
+        this.getStorageName(field),
+        device ? settings[field] : null
+      );
+      if (device) {
+        (data as any)[field] = '';
+      }
+    });
+    return data;
+  }
+
+  private getKeyFields(): (keyof TitleGeneratorSettings)[] {
+    return getProviderIds().map(
+      (provider) => getProviderAdapter(provider).apiKeyField
+    );
+  }
+
+  private getStorageName(field: string): string {
+    return `${API_KEY_CONFIG.LOCAL_STORAGE_PREFIX}${field}`;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * API key resolution and redaction
+ * Keys can be written as `env:NAME` references, and every key the plugin
+ * knows about is removed from log output, errors and notices
+ */
+
+import { API_KEY_CONFIG } from './constants';
+
+let knownSecrets: string[] = [];
+
+/**
+ * Get the variable name of an `env:NAME` key reference, or null if the value
+ * is a literal key
+ */
+export function getEnvVariableName(value: string): string | null {
+  const trimmed = value.trim();
+  return trimmed.startsWith(API_KEY_CONFIG.ENV_PREFIX)
+    ? trimmed.slice(API_KEY_CONFIG.ENV_PREFIX.length).trim()
+    : null;
+}
+
+/**
+ * Turn a configured key into the key to send. `env:NAME` references are read
+ * from the environment, which only exists on desktop; a missing variable
+ * resolves to an empty key.
+ */
+export function resolveApiKey(value: string | undefined): string {
+  const name = getEnvVariableName(value ?? '');
+  if (name === null) {
+    return (value ?? '').trim();
+  }
+  const env = (globalThis as any).process?.env as
+    | Record<string, string | undefined>
+    | undefined;
+  return (env?.[name] ?? '').trim();
+}
+
+/**
+ * Replace the list of secrets that {@link redactSecrets} removes, e.g. after
+ * the keys in settings change
+ */
+export function setKnownSecrets(secrets: string[]): void {
+  knownSecrets = Array.from(
+    new Set(
+      secrets
+        .map((secret) => secret.trim())
+        .filter((secret) => secret.length >= API_KEY_CONFIG.MIN_SECRET_LENGTH)
+    )
+  );
+}
+
+/**
+ * Remove configured keys and anything that looks like an API key from text
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  knownSecrets.forEach((secret) => {
+    redacted = redacted.split(secret).join(API_KEY_CONFIG.REDACTED);
+  });
+  API_KEY_CONFIG.SECRET_PATTERNS.forEach((pattern) => {
+    redacted = redacted.replace(pattern, API_KEY_CONFIG.REDACTED);
+  });
+  API_KEY_CONFIG.SECRET_PREFIXES.forEach((pattern) => {
+    redacted = redacted.replace(pattern, `$1${API_KEY_CONFIG.REDACTED}`);
+  });
+  return redacted;
+}
+
+/**
+ * Redact secrets from a value before it is logged. Strings, errors, arrays
+ * and plain objects are copied with secrets removed; other objects, such as
+ * files or DOM elements, are passed through.
+ */
+export function redactValue(
+  value: unknown,
+  seen = new WeakSet<object>()
+): unknown {
+  if (typeof value === 'string') {
+    return redactSecrets(value);
+  }
+  if (typeof value !== 'object' || value === null || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const copy = new Error(redactSecrets(value.message));
+    copy.name = value.name;
+    copy.stack = value.stack && redactSecrets(value.stack);
+    return Object.assign(copy, redactProperties(value, seen));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, seen));
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype === Object.prototype || prototype === null) {
+    return redactProperties(value, seen);
+  }
+  return value;
+}
+
+/**
+ * Copy an object's own properties, blanking those named like secrets
+ */
+function redactProperties(
+  value: object,
+  seen: WeakSet<object>
+): Record<string, unknown> {
+  const copy: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, property]) => {
+    copy[key] =
+      typeof property === 'string' &&
+      property &&
+      API_KEY_CONFIG.SECRET_PROPERTY.test(key)
+        ? API_KEY_CONFIG.REDACTED
+        : redactValue(property, seen);
+  });
+  return copy;
+}
@@ -0,0 +1,161 @@
+import { App, TAbstractFile, TFile, normalizePath } from 'obsidian';
+
+import { getLogger } from './logger';
+import type { FileOperationResult, TitleGeneratorSettings } from './types';
+
+/**
+ * Watches for edits to untitled notes and generates a title once a note has
+ * been idle long enough. Each note is attempted at most once per cooldown
+ * period, so a failed or still-untitled result does not loop. A note edited
+ * while its title was generated is left as it is and tried again once idle.
+ */
+export class AutoTitleWatcher {
+  private app: App;
+  private getSettings: () => TitleGeneratorSettings;
+  private processFile: (
+    file: TFile,
+    content: string
+  ) => Promise<FileOperationResult>;
+
+  private idleTimers = new Map<string, number>();
+  private lastAttempts = new Map<string, number>();
+  private invalidPattern: string | null = null;
+
+  constructor(
+    app: App,
+    getSettings: () => TitleGeneratorSettings,
+    processFile: (file: TFile, content: string) => Promise<FileOperationResult>
+  ) {
+    this.app = app;
+    this.getSettings = getSettings;
+    this.processFile = processFile;
+  }
+
+  /**
+   * Restart the idle timer of a modified note that is a candidate
+   */
+  handleModify(file: TAbstractFile): void {
+    if (!(file instanceof TFile) || !this.isCandidate(file)) {
+      return;
+    }
+
+    this.clearTimer(file.path);
+    const delay = this.getSettings().autoTitleIdleSeconds * 1000;
+    const timer = window.setTimeout(() => {
+      this.idleTimers.delete(file.path);
+      this.processIdleFile(file.path).catch((error) =>
+        getLogger().error(`Automatic title failed for ${file.path}`, error)
+      );
+    }, delay);
+    this.idleTimers.set(file.path, timer);
+  }
+
+  handleRename(file: TAbstractFile, oldPath: string): void {
+    this.clearTimer(oldPath);
+    const lastAttempt = this.lastAttempts.get(oldPath);
+    if (lastAttempt !== undefined) {
+      this.lastAttempts.delete(oldPath);
+      this.lastAttempts.set(file.path, lastAttempt);
+    }
+  }
+
+  handleDelete(file: TAbstractFile): void {
+    this.clearTimer(file.path);
+    this.lastAttempts.delete(file.path);
+  }
+
+  /**
+   * Cancel all pending timers
+   */
+  stop(): void {
+    this.idleTimers.forEach((timer) => window.clearTimeout(timer));
+    this.idleTimers.clear();
+  }
+
+  private async processIdleFile(path: string): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    // Settings, name or cooldown may have changed while the timer was pending
+    if (!(file instanceof TFile) || !this.isCandidate(file)) {
+      return;
+    }
+
+    const content = await this.app.vault.read(file);
+    if (content.trim().length < this.getSettings().autoTitleMinLength) {
+      getLogger().debug(`Auto title skipped for ${path}: note is too short`);
+      return;
+    }
+
+    this.lastAttempts.set(path, Date.now());
+    getLogger().info(`Generating title automatically for ${path}`);
+    const result = await this.processFile(file, content);
+    if (!result.success) {
+      getLogger().warn(`Automatic title failed for ${path}`, result.error);
+    } else if (result.skipped) {
+      // Edited during generation: try again once the note is idle
+      this.lastAttempts.delete(path);
+      this.handleModify(file);
+    }
+  }
+
+  private isCandidate(file: TFile): boolean {
+    const settings = this.getSettings();
+    if (!settings.autoTitleEnabled || file.extension !== 'md') {
+      return false;
+    }
+
+    const pattern = this.getPattern(settings.autoTitlePattern);
+    if (!pattern || !pattern.test(file.basename)) {
+      return false;
+    }
+
+    if (!this.isInWatchedFolder(file.path, settings)) {
+      return false;
+    }
+
+    const lastAttempt = this.lastAttempts.get(file.path);
+    const cooldown = settings.autoTitleCooldownMinutes * 60 * 1000;
+    return lastAttempt === undefined || Date.now() - lastAttempt >= cooldown;
+  }
+
+  /**
+   * An empty include list means every folder; excludes win over includes
+   */
+  private isInWatchedFolder(
+    path: string,
+    settings: TitleGeneratorSettings
+  ): boolean {
+    const isInside = (folder: string) => {
+      const normalized = normalizePath(folder);
+      return normalized === '/' || path.startsWith(`${normalized}/`);
+    };
+
+    const include = settings.autoTitleIncludeFolders.filter((f) => f.trim());
+    const exclude = settings.autoTitleExcludeFolders.filter((f) => f.trim());
+
+    if (include.length > 0 && !include.some(isInside)) {
+      return false;
+    }
+    return !exclude.some(isInside);
+  }
+
+  private getPattern(source: string): RegExp | null {
+    try {
+      return new RegExp(source);
+    } catch (error) {
+      // Warn once per broken pattern rather than on every keystroke
+      if (this.invalidPattern !== source) {
+        this.invalidPattern = source;
+        getLogger().warn(`Invalid auto title pattern: ${source}`, error);
+      }
+      return null;
+    }
+  }
+
+  private clearTimer(path: string): void {
+    const timer = this.idleTimers.get(path);
+    if (timer !== undefined) {
+      window.clearTimeout(timer);
+      this.idleTimers.delete(path);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { App, Modal } from 'obsidian';
+
+import { UI_CONFIG } from './constants';
+import type { BatchRenameItem } from './types';
+
+/**
+ * Modal that shows every proposed rename of a batch run as an
+ * old name → new name table. Rows can be unticked or edited; only the
+ * approved rows are returned when the user applies the batch.
+ */
+export class BatchPreviewModal extends Modal {
+  private items: BatchRenameItem[];
+  private onApply: (items: BatchRenameItem[] | null) => void;
+  private applyButton: HTMLButtonElement;
+  private settled = false;
+
+  constructor(
+    app: App,
+    items: BatchRenameItem[],
+    onApply: (items: BatchRenameItem[] | null) => void
+  ) {
+    super(app);
+    this.items = items.map((item) => ({ ...item }));
+    this.onApply = onApply;
+  }
+
+  /**
+   * Open the modal and resolve with the approved items, or null if cancelled
+   */
+  static review(
+    app: App,
+    items: BatchRenameItem[]
+  ): Promise<BatchRenameItem[] | null> {
+    return new Promise((resolve) => {
+      new BatchPreviewModal(app, items, resolve).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.modalEl.style.width = 'min(90vw, 900px)';
+    this.titleEl.setText(`Review ${this.items.length} titles`);
+
+    const tableWrapper = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.BATCH_TABLE,
+    });
+    const table = tableWrapper.createEl('table');
+    const headerRow = table.createEl('thead').createEl('tr');
+    const selectAll = headerRow
+      .createEl('th')
+      .createEl('input', { type: 'checkbox' });
+    headerRow.createEl('th', { text: 'Current name' });
+    headerRow.createEl('th', { text: 'New name' });
+
+    const body = table.createEl('tbody');
+    const checkboxes: HTMLInputElement[] = [];
+
+    this.items.forEach((item) => {
+      const row = body.createEl('tr');
+      const checkbox = row
+        .createEl('td')
+        .createEl('input', { type: 'checkbox' });
+      checkbox.checked = item.approved;
+      row.createEl('td', { text: item.originalName });
+      const nameCell = row.createEl('td');
+
+      if (item.error) {
+        // Failed generations stay visible but cannot be applied
+        row.addClass(UI_CONFIG.CSS_CLASSES.BATCH_ROW_FAILED);
+        checkbox.checked = false;
+        checkbox.disabled = true;
+        nameCell.setText(`Failed: ${item.error}`);
+        return;
+      }
+
+      checkboxes.push(checkbox);
+      checkbox.addEventListener('change', () => {
+        item.approved = checkbox.checked;
+        this.updateState(selectAll);
+      });
+
+      const input = nameCell.createEl('input', { type: 'text' });
+      input.value = item.proposedName;
+      input.addEventListener('input', () => {
+        item.proposedName = input.value;
+        // A corrected name replaces the generated title everywhere
+        item.title = undefined;
+        this.updateState(selectAll);
+      });
+    });
+
+    selectAll.addEventListener('change', () => {
+      this.items
+        .filter((item) => !item.error)
+        .forEach((item) => {
+          item.approved = selectAll.checked;
+        });
+      checkboxes.forEach((checkbox) => {
+        checkbox.checked = selectAll.checked;
+      });
+      this.updateState(selectAll);
+    });
+
+    const buttonsEl = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_BUTTONS,
+    });
+    const cancelButton = buttonsEl.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+    this.applyButton = buttonsEl.createEl('button', { cls: 'mod-cta' });
+    this.applyButton.addEventListener('click', () => this.apply());
+
+    this.updateState(selectAll);
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.settle(null);
+  }
+
+  /**
+   * Rows that are ticked and still have a usable name
+   */
+  private getApprovedItems(): BatchRenameItem[] {
+    return this.items.filter(
+      (item) => item.approved && !item.error && item.proposedName.trim()
+    );
+  }
+
+  private updateState(selectAll: HTMLInputElement): void {
+    const selectable = this.items.filter((item) => !item.error);
+    const approvedCount = this.getApprovedItems().length;
+
+    selectAll.checked =
+      selectable.length > 0 && selectable.every((item) => item.approved);
+    this.applyButton.setText(`Apply ${approvedCount} titles`);
+    this.applyButton.disabled = approvedCount === 0;
+  }
+
+  private apply(): void {
+    this.settle(
+      this.getApprovedItems().map((item) => ({
+        ...item,
+        proposedName: item.proposedName.trim(),
+      }))
+    );
+    this.close();
+  }
+
+  /**
+   * Report the outcome exactly once, whichever way the modal is closed
+   */
+  private settle(items: BatchRenameItem[] | null): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    this.onApply(items);
+  }
+}
@@ -0,0 +1,159 @@
+import type {
+  BatchItemStatus,
+  BatchOperationProgress,
+  BatchOperationStatus,
+} from './types';
+
+/**
+ * Work queue for batch runs with bounded concurrency, pause/resume and
+ * cancellation. Cancelling stops new items from starting and aborts the
+ * signal passed to the workers, so items still waiting, e.g. for the rate
+ * limiter, stop as well.
+ */
+export class BatchQueue<T> {
+  public readonly errors: Error[] = [];
+  private concurrency: number;
+  private controller = new AbortController();
+  private onProgress: (progress: BatchOperationProgress) => void;
+  private progress: BatchOperationProgress;
+  private resumeWaiters: Array<() => void> = [];
+
+  constructor(
+    concurrency: number,
+    onProgress: (progress: BatchOperationProgress) => void
+  ) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.onProgress = onProgress;
+    this.progress = {
+      total: 0,
+      processed: 0,
+      succeeded: 0,
+      skipped: 0,
+      failed: 0,
+      status: 'running',
+    };
+  }
+
+  get status(): BatchOperationStatus {
+    return this.progress.status ?? 'running';
+  }
+
+  /**
+   * Process all items. A worker that throws counts as a failure; one that
+   * resolves with 'skipped' or 'failed' is counted as such, anything else
+   * as a success.
+   * @param worker Receives a signal that is aborted when the run is cancelled
+   * @returns The final progress; `status` is 'cancelled' if stopped early
+   */
+  async run(
+    items: T[],
+    worker: (item: T, signal: AbortSignal) => Promise<BatchItemStatus | void>,
+    describe: (item: T) => string
+  ): Promise<BatchOperationProgress> {
+    this.progress.total = items.length;
+    this.report();
+
+    let next = 0;
+    const runWorker = async () => {
+      while (next < items.length) {
+        await this.waitWhilePaused();
+        if (this.status === 'cancelled') {
+          return;
+        }
+
+        const item = items[next];
+        next++;
+        this.progress.current = describe(item);
+        this.report();
+
+        try {
+          const outcome = await worker(item, this.controller.signal);
+          if (outcome === 'skipped') {
+            this.progress.skipped++;
+          } else if (outcome === 'failed') {
+            this.progress.failed++;
+          } else {
+            this.progress.succeeded++;
+          }
+        } catch (error) {
+          this.progress.failed++;
+          this.errors.push(error as Error);
+        } finally {
+          this.progress.processed++;
+          this.report();
+        }
+      }
+    };
+
+    const workerCount = Math.min(this.concurrency, items.length);
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+
+    // A cancel that arrives after the last item started skipped nothing
+    if (
+      this.status !== 'cancelled' ||
+      this.progress.processed === items.length
+    ) {
+      this.progress.status = 'completed';
+    }
+    this.progress.current = undefined;
+    this.report();
+    return { ...this.progress };
+  }
+
+  pause(): void {
+    if (this.status === 'running') {
+      this.progress.status = 'paused';
+      this.report();
+    }
+  }
+
+  resume(): void {
+    if (this.status === 'paused') {
+      this.progress.status = 'running';
+      this.releaseWaiters();
+      this.report();
+    }
+  }
+
+  cancel(): void {
+    if (this.status === 'running' || this.status === 'paused') {
+      this.progress.status = 'cancelled';
+      this.controller.abort();
+      this.releaseWaiters();
+      this.report();
+    }
+  }
+
+  private waitWhilePaused(): Promise<void> {
+    if (this.status !== 'paused') {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.resumeWaiters.push(resolve);
+    });
+  }
+
+  private releaseWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private report(): void {
+    this.onProgress({ ...this.progress });
+  }
+}
+
+/**
+ * Runs async tasks one at a time, in call order. Used to keep concurrent
+ * batch workers from racing each other when picking free filenames.
+ */
+export class SerialExecutor {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.tail.then(task, task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
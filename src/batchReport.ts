@@ -0,0 +1,88 @@
+import type {
+  BatchItemResult,
+  BatchItemStatus,
+  BatchOperationProgress,
+} from './types';
+
+/**
+ * Build the markdown body of a batch summary report note
+ * @param label Name of the batch operation, used as the heading
+ * @param progress Final progress of the run
+ * @param results Per-file results, in any order
+ * @param date Human readable time of the run
+ */
+export function buildBatchReport(
+  label: string,
+  progress: BatchOperationProgress,
+  results: BatchItemResult[],
+  date: string
+): string {
+  const byStatus = (status: BatchItemStatus) =>
+    results
+      .filter((result) => result.status === status)
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+  const failed = byStatus('failed');
+  const skipped = byStatus('skipped');
+  const succeeded = byStatus('succeeded');
+  const notProcessed = progress.total - progress.processed;
+
+  const lines = [
+    `# ${label} report`,
+    '',
+    `- Date: ${date}`,
+    `- Status: ${progress.status ?? 'completed'}`,
+    `- Succeeded: ${succeeded.length}`,
+    `- Skipped: ${skipped.length}`,
+    `- Failed: ${failed.length}`,
+  ];
+  if (notProcessed > 0) {
+    lines.push(`- Not processed: ${notProcessed}`);
+  }
+
+  if (failed.length > 0) {
+    lines.push('', '## Failed', '', '| Note | Reason |', '| --- | --- |');
+    failed.forEach((result) =>
+      lines.push(
+        `| ${linkTo(result.path)} | ${escapeCell(result.reason ?? '')} |`
+      )
+    );
+  }
+
+  if (skipped.length > 0) {
+    lines.push('', '## Skipped', '', '| Note | Reason |', '| --- | --- |');
+    skipped.forEach((result) =>
+      lines.push(
+        `| ${linkTo(result.newPath ?? result.path)} | ${escapeCell(result.reason ?? '')} |`
+      )
+    );
+  }
+
+  if (succeeded.length > 0) {
+    lines.push(
+      '',
+      '## Succeeded',
+      '',
+      '| Original name | Note | Generated by |',
+      '| --- | --- | --- |'
+    );
+    succeeded.forEach((result) =>
+      lines.push(
+        `| ${escapeCell(result.name)} | ${linkTo(result.newPath ?? result.path)} | ${escapeCell(result.source ? `${result.source.model} (${result.source.provider})` : '')} |`
+      )
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Wikilink to a vault path, without the markdown extension
+ */
+function linkTo(path: string): string {
+  return `[[${path.replace(/\.md$/, '')}]]`;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
@@ -0,0 +1,235 @@
+/**
+ * Provider diagnostics
+ * Checks the API key, the selected model and a small completion, and explains
+ * failures with the same hints as other errors
+ */
+
+import { CONNECTION_TEST_CONFIG, ERROR_MESSAGES } from './constants';
+import { getErrorHandler } from './errorHandler';
+import { sendApiRequest } from './httpClient';
+import { getLogger } from './logger';
+import type { ModelService } from './modelService';
+import { getProviderAdapter, getProviderModel } from './providers';
+import type {
+  AIProvider,
+  ConnectionCheck,
+  ConnectionTestResult,
+  TitleGeneratorSettings,
+} from './types';
+import type { UsageTracker } from './usageTracker';
+import { getValidationService } from './validation';
+
+/**
+ * Test a provider with its configured key and model. Later steps are skipped
+ * when an earlier one fails; failures are reported in the result, not thrown.
+ * @param usageTracker Counts the test completion toward the budget
+ */
+export async function testConnection(
+  provider: AIProvider,
+  settings: TitleGeneratorSettings,
+  modelService: ModelService,
+  usageTracker: UsageTracker
+): Promise<ConnectionTestResult> {
+  const providerSettings = { ...settings, aiProvider: provider };
+  const model = getProviderModel(providerSettings, provider);
+
+  const { check: keyCheck, models } = await checkApiKey(
+    provider,
+    providerSettings,
+    modelService
+  );
+  const modelCheck = checkModel(model, models);
+  const checks = [
+    keyCheck,
+    modelCheck,
+    keyCheck.status === 'failed' || modelCheck.status === 'failed'
+      ? {
+          name: 'Test completion',
+          status: 'skipped' as const,
+          message: 'Skipped until the checks above pass.',
+        }
+      : await checkCompletion(provider, providerSettings, usageTracker),
+  ];
+
+  getLogger().info(
+    `Connection test for ${getProviderAdapter(provider).name}`,
+    checks
+  );
+  return { provider, model, checks };
+}
+
+/**
+ * Check the key's format, then list the provider's models with it. Providers
+ * without a key have their server checked the same way.
+ */
+async function checkApiKey(
+  provider: AIProvider,
+  settings: TitleGeneratorSettings,
+  modelService: ModelService
+): Promise<{ check: ConnectionCheck; models?: string[] }> {
+  const adapter = getProviderAdapter(provider);
+  const name = adapter.requiresApiKey ? 'API key' : 'Server';
+  const warnings: string[] = [];
+
+  if (adapter.requiresApiKey) {
+    const validation = getValidationService().validateApiKey(
+      settings[adapter.apiKeyField] as string,
+      provider
+    );
+    if (!validation.valid) {
+      return {
+        check: {
+          name,
+          status: 'failed',
+          message: `${validation.errors.join('. ')}.`,
+          hint: `Enter your ${adapter.name} API key in the settings.`,
+        },
+      };
+    }
+    warnings.push(...validation.warnings);
+  }
+
+  if (!adapter.capabilities.modelListing) {
+    return {
+      check: {
+        name,
+        status: 'skipped',
+        message: `${adapter.name} does not list models; the test completion checks the connection.`,
+      },
+    };
+  }
+
+  const start = Date.now();
+  try {
+    const models = await modelService.queryModels(provider, settings);
+    return {
+      models,
+      check: {
+        name,
+        status: warnings.length > 0 ? 'warning' : 'passed',
+        message: [
+          `Accepted, ${models.length} models available.`,
+          ...warnings,
+        ].join(' '),
+        latencyMs: Date.now() - start,
+      },
+    };
+  } catch (error) {
+    return {
+      check: createFailedCheck(name, error, provider, Date.now() - start),
+    };
+  }
+}
+
+/**
+ * Check that a model is selected and, if the models could be listed, that the
+ * provider offers it
+ */
+function checkModel(model: string, models?: string[]): ConnectionCheck {
+  const name = 'Model';
+  if (!model) {
+    return {
+      name,
+      status: 'failed',
+      message: 'No model is selected.',
+      hint: ERROR_MESSAGES.NO_MODEL_SELECTED,
+    };
+  }
+  if (models && !models.includes(model)) {
+    return {
+      name,
+      status: 'warning',
+      message: `${model} is not in the provider's model list.`,
+      hint: 'Reload the model list and check that the model name is spelled correctly.',
+    };
+  }
+  return { name, status: 'passed', message: model };
+}
+
+/**
+ * Send a tiny prompt to the selected model once and time the answer. The
+ * request is subject to the budget like any other.
+ */
+async function checkCompletion(
+  provider: AIProvider,
+  settings: TitleGeneratorSettings,
+  usageTracker: UsageTracker
+): Promise<ConnectionCheck> {
+  const name = 'Test completion';
+  const adapter = getProviderAdapter(provider);
+  const start = Date.now();
+  try {
+    if (usageTracker.isBudgetExceeded()) {
+      throw getErrorHandler().createBudgetExceededError(
+        settings.budgetLimit,
+        settings.budgetPeriod,
+        provider
+      );
+    }
+
+    const response = await sendApiRequest(
+      {
+        ...adapter.buildChatRequest(CONNECTION_TEST_CONFIG.PROMPT, settings),
+        timeout: CONNECTION_TEST_CONFIG.TIMEOUT,
+        retries: 0,
+      },
+      provider
+    );
+    const latencyMs = Date.now() - start;
+    const usage = adapter.parseUsage(response.json);
+    if (usage) {
+      usageTracker.record(
+        provider,
+        getProviderModel(settings, provider),
+        usage
+      );
+    }
+
+    const validation = getValidationService().validateApiResponse(
+      response.json,
+      provider
+    );
+    if (!validation.valid) {
+      return {
+        name,
+        status: 'failed',
+        message: `${validation.errors.join('. ')}.`,
+        hint: 'The model answered in an unexpected format. Try another model.',
+        latencyMs,
+      };
+    }
+
+    const answer = adapter.parseChatResponse(response.json);
+    const shownAnswer =
+      answer.length > CONNECTION_TEST_CONFIG.MAX_ANSWER_LENGTH
+        ? `${answer.slice(0, CONNECTION_TEST_CONFIG.MAX_ANSWER_LENGTH)}…`
+        : answer;
+    return {
+      name,
+      status: validation.warnings.length > 0 ? 'warning' : 'passed',
+      message: [`Answered "${shownAnswer}".`, ...validation.warnings].join(' '),
+      latencyMs,
+    };
+  } catch (error) {
+    return createFailedCheck(name, error, provider, Date.now() - start);
+  }
+}
+
+function createFailedCheck(
+  name: string,
+  error: unknown,
+  provider: AIProvider,
+  latencyMs: number
+): ConnectionCheck {
+  const processed = getErrorHandler().processError(
+    error instanceof Error ? error : new Error(String(error)),
+    { provider, context: 'test-connection' }
+  );
+  return {
+    name,
+    status: 'failed',
+    message: processed.message,
+    hint: processed.userMessage,
+    latencyMs,
+  };
+}
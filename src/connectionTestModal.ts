@@ -0,0 +1,82 @@
+import { App, Modal } from 'obsidian';
+
+import { UI_CONFIG } from './constants';
+import type { ConnectionCheckStatus, ConnectionTestResult } from './types';
+
+const STATUS_LABELS: Record<ConnectionCheckStatus, string> = {
+  passed: '✓',
+  warning: '!',
+  failed: '✗',
+  skipped: '–',
+};
+
+/**
+ * Modal that runs a connection test and lists the outcome of each step
+ */
+export class ConnectionTestModal extends Modal {
+  private providerName: string;
+  private run: () => Promise<ConnectionTestResult>;
+  private isOpen = false;
+
+  constructor(
+    app: App,
+    providerName: string,
+    run: () => Promise<ConnectionTestResult>
+  ) {
+    super(app);
+    this.providerName = providerName;
+    this.run = run;
+  }
+
+  async onOpen(): Promise<void> {
+    this.isOpen = true;
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`Test connection to ${this.providerName}`);
+    const statusEl = contentEl.createDiv({ text: 'Testing…' });
+
+    const result = await this.run();
+    // The modal may have been closed while the test was running
+    if (!this.isOpen) {
+      return;
+    }
+    statusEl.setText(
+      result.checks.some((check) => check.status === 'failed')
+        ? 'The connection test failed.'
+        : `${this.providerName} is ready to generate titles.`
+    );
+
+    result.checks.forEach((check) => {
+      const checkEl = contentEl.createDiv({
+        cls: UI_CONFIG.CSS_CLASSES.CONNECTION_CHECK,
+      });
+      checkEl.addClass(`is-${check.status}`);
+      const latency =
+        check.latencyMs !== undefined ? ` (${check.latencyMs} ms)` : '';
+      checkEl.createDiv({
+        text: `${STATUS_LABELS[check.status]} ${check.name}${latency}: ${check.message}`,
+      });
+      if (check.hint) {
+        checkEl.createDiv({
+          cls: UI_CONFIG.CSS_CLASSES.CONNECTION_HINT,
+          text: check.hint,
+        });
+      }
+    });
+
+    const buttonsEl = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_BUTTONS,
+    });
+    const closeButton = buttonsEl.createEl('button', {
+      text: 'Close',
+      cls: 'mod-cta',
+    });
+    closeButton.addEventListener('click', () => this.close());
+    closeButton.focus();
+  }
+
+  onClose(): void {
+    this.isOpen = false;
+    this.contentEl.empty();
+  }
+}
@@ -3,6 +3,8 @@
  * Centralized location for all hardcoded values
  */
 
+import type { FallbackTrigger, JsonSchema, ModelPrice } from './types';
+
 export const PLUGIN_NAME = 'Title Generator';
 export const PLUGIN_ID = 'title-generator';
 
@@ -11,6 +13,7 @@ export const API_CONFIG = {
   TIMEOUT: 30000, // 30 seconds
   MAX_RETRIES: 3,
   RETRY_DELAY: 1000, // 1 second
+  MAX_RETRY_DELAY: 60000, // Upper bound for backoff and Retry-After waits
   
   // API Endpoints
   OPENAI: {
@@ -39,6 +42,33 @@ export const API_CONFIG = {
       'Content-Type': 'application/json',
     },
   },
+
+  // OpenAI-compatible servers (Ollama, LM Studio, vLLM)
+  LOCAL: {
+    DEFAULT_BASE_URL: 'http://localhost:11434/v1',
+  },
+} as const;
+
+// API Key Configuration
+export const API_KEY_CONFIG = {
+  // A key written as `env:NAME` is read from that environment variable
+  ENV_PREFIX: 'env:',
+  // Keys stored on this device only are kept under these local storage names
+  LOCAL_STORAGE_PREFIX: 'title-generator-',
+  REDACTED: '[redacted]',
+  // Known secrets shorter than this are not redacted, so short test values do
+  // not blank out ordinary words
+  MIN_SECRET_LENGTH: 8,
+  // Key formats that are redacted even when they are not configured here
+  SECRET_PATTERNS: [
+    /sk-ant-[A-Za-z0-9_-]{8,}/g,
+    /sk-[A-Za-z0-9_-]{16,}/g,
+    /AIza[0-9A-Za-z_-]{30,}/g,
+  ],
+  // Redacted together with the value that follows them
+  SECRET_PREFIXES: [/([?&]key=)[^&\s"']+/g, /(Bearer\s+)[^\s"']+/gi],
+  // Object properties whose values are always redacted
+  SECRET_PROPERTY: /api[-_]?key|authorization|secret|token$/i,
 } as const;
 
 // Model Configuration
@@ -70,9 +100,24 @@ export const TITLE_CONFIG = {
   // Default prompts
   DEFAULT_PROMPT: 'Create a concise title for this text. Respond with ONLY the title - no explanations, quotes, or extra text. Maximum {max_length} characters.',
   DEFAULT_REFINE_PROMPT: 'Make this title shorter (under {max_length} characters): "{title}". Respond with ONLY the new title.',
+  CANDIDATES_PROMPT: 'Suggest {count} different titles. Put each title on its own line with no numbering, bullets, quotes, or extra text. Each title must be at most {max_length} characters.',
+
+  // Title candidates
+  DEFAULT_CANDIDATE_COUNT: 3,
+  MIN_CANDIDATE_COUNT: 2,
+  MAX_CANDIDATE_COUNT: 10,
+  LIST_MARKER: /^\s*(?:\d+[.)]|[-*•])\s+/,
+
+  // Words kept lower case in Title Case unless they start or end the title
+  STOP_WORDS: [
+    'a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'from', 'in', 'into',
+    'nor', 'of', 'on', 'onto', 'or', 'over', 'per', 'so', 'the', 'to', 'up',
+    'via', 'vs', 'with', 'yet',
+  ] as readonly string[],
   
   // Forbidden filename characters (OS-specific)
-  FORBIDDEN_CHARS: /[<>:"\/\\|?*\x00-\x1F]/g,
+  // eslint-disable-next-line no-control-regex
+  FORBIDDEN_CHARS: /[<>:"/\\|?*\x00-\x1F]/g,
   
   // Fallback title
   FALLBACK_TITLE: 'Untitled',
@@ -101,7 +146,181 @@ export const UI_CONFIG = {
     SEARCH_ITEM: 'search-result-item',
     SEARCH_ITEM_SELECTED: 'is-selected',
     SEARCH_ITEM_HOVER: 'search-result-item:hover',
+    CHOOSER_CURRENT: 'title-chooser-current',
+    CHOOSER_LIST: 'title-chooser-list',
+    CHOOSER_ITEM: 'title-chooser-item',
+    CHOOSER_INPUT: 'title-chooser-input',
+    CHOOSER_BUTTONS: 'title-chooser-buttons',
+    BATCH_TABLE: 'title-batch-table',
+    BATCH_ROW_FAILED: 'title-batch-row-failed',
+    HISTORY_BATCH: 'title-history-batch',
+    HISTORY_ENTRY: 'title-history-entry',
+    HISTORY_UNDONE: 'title-history-undone',
+    BATCH_STATUS_BUTTON: 'title-batch-status-button',
+    PROMPT_PREVIEW: 'title-prompt-preview',
+    DIFF_VIEW: 'title-duplicate-diff',
+    DIFF_REMOVED: 'title-duplicate-diff-removed',
+    CONNECTION_CHECK: 'title-connection-check',
+    CONNECTION_HINT: 'title-connection-hint',
+    LOG_TOOLBAR: 'title-log-toolbar',
+    LOG_ENTRY: 'title-log-entry',
+    LOG_WARN: 'title-log-warn',
+    LOG_ERROR: 'title-log-error',
+  },
+} as const;
+
+// Prompt Template Configuration
+export const PROMPT_TEMPLATE_CONFIG = {
+  // Variables available in every prompt
+  VARIABLES: [
+    'max_length',
+    'filename',
+    'folder',
+    'tags',
+    'date',
+    'language',
+    'existing_titles_in_folder',
+  ],
+  // Extra variables available in the refinement prompt
+  REFINE_VARIABLES: ['title'],
+  FRONTMATTER_PREFIX: 'frontmatter.',
+  DATE_PREFIX: 'date:',
+  DATE_FORMAT: 'YYYY-MM-DD',
+  MAX_EXISTING_TITLES: 50,
+} as const;
+
+// Structured Output Configuration
+export const STRUCTURED_OUTPUT_CONFIG = {
+  // Name of the OpenAI schema and the Anthropic tool
+  NAME: 'title_response',
+  DESCRIPTION: 'Return the generated note title',
+  SCHEMA: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'The best title' },
+      alternatives: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Other title options, may be empty',
+      },
+      language: {
+        type: 'string',
+        description: 'Language of the note, e.g. English',
+      },
+    },
+    required: ['title', 'alternatives', 'language'],
+    additionalProperties: false,
+  } as JsonSchema,
+  PROMPT: 'Answer in JSON: put the title in "title", leave "alternatives" empty and name the language of the note in "language".',
+  CANDIDATES_PROMPT: 'Answer in JSON: put the best title in "title", {count} other titles in "alternatives" and name the language of the note in "language". Each title must be at most {max_length} characters.',
+  // A response with one of these status codes rejects the structured output
+  // options only if its body mentions them
+  UNSUPPORTED_STATUS_CODES: [400, 422],
+  UNSUPPORTED_ERROR_PATTERN: /response_format|schema|response_?mime_?type|structured output|tool_choice|tools/i,
+} as const;
+
+// Batch Processing Configuration
+export const BATCH_CONFIG = {
+  DEFAULT_CONCURRENCY: 2,
+  MIN_CONCURRENCY: 1,
+  MAX_CONCURRENCY: 10,
+  RATE_LIMIT_WINDOW: 60000, // 1 minute
+} as const;
+
+// Automatic Title Configuration
+export const AUTO_TITLE_CONFIG = {
+  DEFAULT_PATTERN: '^Untitled( \\d+)?$',
+  DEFAULT_IDLE_SECONDS: 30,
+  MIN_IDLE_SECONDS: 5,
+  MAX_IDLE_SECONDS: 600,
+  DEFAULT_MIN_LENGTH: 200,
+  DEFAULT_COOLDOWN_MINUTES: 10,
+} as const;
+
+// Provider Fallback Configuration
+export const FALLBACK_CONFIG = {
+  // Error codes that each fallback trigger covers
+  TRIGGER_CODES: {
+    'rate-limit': ['RATE_LIMIT'],
+    'server-error': ['SERVER_ERROR'],
+    timeout: ['TIMEOUT'],
+    network: ['NETWORK_ERROR'],
+    auth: ['UNAUTHORIZED', 'FORBIDDEN'],
   },
+  DEFAULT_TRIGGERS: ['rate-limit', 'server-error', 'timeout', 'network'] as FallbackTrigger[],
+} as const;
+
+// Duplicate Title Detection Configuration
+export const DUPLICATE_DETECTION_CONFIG = {
+  // Minimum similarity per sensitivity level
+  THRESHOLDS: { strict: 0.95, normal: 0.85, loose: 0.75 },
+  // Lines this far below the threshold go to the AI tie-breaker, if enabled
+  TIE_MARGIN: 0.15,
+  // Non-empty lines at the start of a note that are compared with the title
+  SCAN_LINES: 3,
+  // Unchanged lines shown around removed lines in the confirmation dialog
+  DIFF_CONTEXT_LINES: 2,
+} as const;
+
+// Usage and Budget Configuration
+export const USAGE_CONFIG = {
+  HISTORY_DAYS: 90,
+  DATE_FORMAT: 'YYYY-MM-DD',
+  MONTH_FORMAT: 'YYYY-MM',
+  // Days shown in the settings spend history
+  DISPLAYED_DAYS: 30,
+  // Rough characters per token, for streams that stop before reporting usage
+  CHARS_PER_TOKEN: 4,
+  // Milliseconds without new usage before the totals are saved
+  SAVE_DELAY: 2000,
+  // Starting point for the price table, in US dollars per million tokens.
+  // Prices change; check the provider's pricing page.
+  DEFAULT_PRICES: [
+    { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+    { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    { model: 'gpt-4-turbo', inputPerMillion: 10, outputPerMillion: 30 },
+    { model: 'gpt-4', inputPerMillion: 30, outputPerMillion: 60 },
+    { model: 'gpt-3.5-turbo', inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    { model: 'claude-3-opus', inputPerMillion: 15, outputPerMillion: 75 },
+    { model: 'claude-3-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+    { model: 'claude-3-5-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+    { model: 'claude-3-haiku', inputPerMillion: 0.25, outputPerMillion: 1.25 },
+    { model: 'claude-3-5-haiku', inputPerMillion: 0.8, outputPerMillion: 4 },
+    { model: 'gemini-1.5-pro', inputPerMillion: 1.25, outputPerMillion: 5 },
+    { model: 'gemini-1.5-flash', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+    { model: 'gemini-1.0-pro', inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  ] as ModelPrice[],
+} as const;
+
+// Rename History Configuration
+export const HISTORY_CONFIG = {
+  MAX_ENTRIES: 500,
+  VIEW_TYPE: 'title-generator-history',
+  VIEW_TITLE: 'Title history',
+  VIEW_ICON: 'history',
+} as const;
+
+// Connection Test Configuration
+export const CONNECTION_TEST_CONFIG = {
+  // Short prompt whose answer costs only a few tokens
+  PROMPT: 'Reply with the single word OK.',
+  // Longest part of the answer shown in the results
+  MAX_ANSWER_LENGTH: 80,
+  // The test completion is sent once, so a failure shows up quickly
+  TIMEOUT: 15000,
+} as const;
+
+// Log Configuration
+export const LOG_CONFIG = {
+  // Messages kept in memory for the log pane and exports
+  BUFFER_SIZE: 500,
+  // Severity order; a message is logged when its level is at or above the setting
+  LEVELS: ['debug', 'info', 'warn', 'error', 'off'],
+  // Longest serialized log argument kept in the buffer
+  MAX_DETAIL_LENGTH: 2000,
+  VIEW_TYPE: 'title-generator-log',
+  VIEW_TITLE: 'Title Generator log',
+  VIEW_ICON: 'scroll-text',
 } as const;
 
 // Error Messages
@@ -116,6 +335,8 @@ export const ERROR_MESSAGES = {
   NETWORK_ERROR: 'Network error. Please check your internet connection.',
   TIMEOUT_ERROR: 'Request timed out. Please try again.',
   RATE_LIMIT_ERROR: 'Rate limit exceeded. Please wait and try again.',
+  CANCELLED: 'Title generation stopped.',
+  BUDGET_EXCEEDED: 'Spending limit reached. Raise it under Usage and Budget in the plugin settings.',
   
   // Generation errors
   GENERATION_FAILED: 'Title generation failed. Please try again.',
@@ -144,13 +365,13 @@ export const VALIDATION_RULES = {
   API_KEY: {
     MIN_LENGTH: 10,
     MAX_LENGTH: 200,
-    PATTERN: /^[a-zA-Z0-9\-_\.]+$/,
+    PATTERN: /^[a-zA-Z0-9\-_.]+$/,
   },
   
   MODEL_NAME: {
     MIN_LENGTH: 1,
     MAX_LENGTH: 100,
-    PATTERN: /^[a-zA-Z0-9\-_\.]+$/,
+    PATTERN: /^[a-zA-Z0-9\-_.]+$/,
   },
   
   PROMPT: {
@@ -174,37 +395,12 @@ export const FILE_EXTENSIONS = {
   TYPESCRIPT: '.ts',
 } as const;
 
-// Provider-specific configurations
-export const PROVIDER_CONFIG = {
-  openai: {
-    name: 'OpenAI',
-    apiKeyField: 'openAiApiKey',
-    modelField: 'openAiModel',
-    requiresApiKey: true,
-    supportsTemperature: true,
-    defaultModels: ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'],
-  },
-  anthropic: {
-    name: 'Anthropic',
-    apiKeyField: 'anthropicApiKey',
-    modelField: 'anthropicModel',
-    requiresApiKey: true,
-    supportsTemperature: true,
-    defaultModels: ['claude-3-opus-20240229', 'claude-3-sonnet-20240229', 'claude-3-haiku-20240307'],
-  },
-  google: {
-    name: 'Google Gemini',
-    apiKeyField: 'googleApiKey',
-    modelField: 'googleModel',
-    requiresApiKey: true,
-    supportsTemperature: true,
-    defaultModels: ['gemini-1.5-pro-latest', 'gemini-1.5-flash-latest', 'gemini-1.0-pro'],
-  },
-} as const;
-
 // Regular expressions for cleaning AI responses
 export const RESPONSE_CLEANING = {
   THINK_TAGS: /<think>[\s\S]*?<\/think>/g,
+  // Reasoning models served locally sometimes omit the opening tag or get cut off mid-thought
+  ORPHAN_THINK_CLOSE: /^[\s\S]*?<\/think>/,
+  UNCLOSED_THINK: /<think>[\s\S]*$/,
   PREFIXES: /^(Title:|Generated title:|Suggested title:|The title:|A title:|Here's the title:|Sure, here|I'll|I would|Based on)/i,
   QUOTES: /["']/g,
   MULTIPLE_SPACES: /\s+/g,
@@ -0,0 +1,173 @@
+import type { ContentSelection } from './types';
+
+/**
+ * Marks text left out between sampled parts of a note
+ */
+const OMISSION = '\n\n[...]\n\n';
+
+/**
+ * Reduce a note to the text worth sending to the AI
+ * @param content The raw note content
+ * @param maxLength Character budget for the result
+ * @param selection `beginning` keeps the start of the note; `sample` keeps
+ *   the start, the headings of the rest and the end
+ */
+export function extractNoteContent(
+  content: string,
+  maxLength: number,
+  selection: ContentSelection
+): string {
+  const text = cleanMarkdown(content);
+  if (text.length <= maxLength) {
+    return text;
+  }
+  if (selection === 'beginning') {
+    return truncateAtWord(text, maxLength);
+  }
+  return sampleContent(text, maxLength);
+}
+
+/**
+ * Strip markup that says little about the topic of a note: frontmatter, code
+ * blocks, embeds, comments and link syntax
+ */
+export function cleanMarkdown(content: string): string {
+  return (
+    content
+      .replace(/^\uFEFF?---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/, '')
+      // Fenced code blocks; an unclosed fence runs to the end of the note
+      .replace(
+        /^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^[ \t]*\1[ \t]*$|(?![\s\S]))/gm,
+        ''
+      )
+      .replace(/%%[\s\S]*?%%/g, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      // Embeds: ![[note]], ![alt](image.png)
+      .replace(/!\[\[[^\]]*\]\]/g, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      // Wikilinks keep their alias, or the note name without the heading part
+      .replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2')
+      .replace(/\[\[([^\]#]*)(?:#[^\]]*)?\]\]/g, '$1')
+      // Markdown links keep their text
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/`([^`\n]+)`/g, '$1')
+      .replace(/[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+}
+
+/**
+ * Cut text at the last word boundary within `maxLength`
+ */
+function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.search(/\s\S*$/);
+  return (lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trim();
+}
+
+/**
+ * Keep the opening paragraphs, an outline of the later headings and the
+ * closing paragraphs. Half the budget goes to the opening, up to a quarter
+ * to the headings and the rest to the end.
+ */
+function sampleContent(text: string, maxLength: number): string {
+  const budget = maxLength - 2 * OMISSION.length;
+  if (budget < maxLength / 2) {
+    return truncateAtWord(text, maxLength);
+  }
+
+  const paragraphs = text.split(/\n{2,}/);
+  const head: string[] = [];
+  let headLength = 0;
+  let index = 0;
+  for (; index < paragraphs.length; index++) {
+    const paragraph = paragraphs[index];
+    const remaining = Math.floor(budget / 2) - headLength;
+    if (paragraph.length > remaining) {
+      // Keep the start of the paragraph that does not fit
+      const kept = remaining > 0 ? truncateAtWord(paragraph, remaining) : '';
+      if (kept) {
+        head.push(kept);
+        index++;
+      }
+      break;
+    }
+    head.push(paragraph);
+    headLength += paragraph.length + 2;
+  }
+  // A heading whose section did not fit belongs with the outline
+  while (head.length > 1 && /^#{1,6}\s[^\n]*$/.test(head[head.length - 1])) {
+    head.pop();
+    index--;
+  }
+
+  // Headings are collected with their paragraph, so the ones that end up in
+  // the tail are not repeated
+  const rest = paragraphs.slice(index);
+  const headings: Array<{ line: string; paragraph: number }> = [];
+  let headingsLength = 0;
+  rest.forEach((paragraph, paragraphIndex) =>
+    paragraph
+      .split('\n')
+      .filter((line) => /^#{1,6}\s/.test(line))
+      .forEach((line) => {
+        if (headingsLength + line.length + 1 <= budget / 4) {
+          headings.push({ line, paragraph: paragraphIndex });
+          headingsLength += line.length + 1;
+        }
+      })
+  );
+
+  const headText = head.join('\n\n');
+  const tailBudget = budget - headText.length - headingsLength;
+  let tailStart = rest.length;
+  let tailLength = 0;
+  while (
+    tailStart > 0 &&
+    tailLength + rest[tailStart - 1].length + 2 <= tailBudget
+  ) {
+    tailStart--;
+    tailLength += rest[tailStart].length + 2;
+  }
+  // Keep the end of the paragraph that does not fit
+  const partial =
+    tailStart > 0
+      ? truncateTail(
+          rest[tailStart - 1],
+          tailBudget - tailLength - (tailStart < rest.length ? 2 : 0)
+        )
+      : '';
+  const tail = [partial, ...rest.slice(tailStart)]
+    .filter((paragraph) => paragraph.length > 0)
+    .join('\n\n');
+
+  return [
+    headText,
+    headings
+      .filter((heading) => heading.paragraph < tailStart)
+      .map((heading) => heading.line)
+      .join('\n'),
+    tail,
+  ]
+    .filter((part) => part.length > 0)
+    .join(OMISSION);
+}
+
+/**
+ * Keep the end of a paragraph, starting at a word boundary
+ */
+function truncateTail(text: string, maxLength: number): string {
+  if (maxLength <= 0) {
+    return '';
+  }
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(text.length - maxLength);
+  const firstSpace = cut.search(/\s/);
+  return (firstSpace !== -1 ? cut.slice(firstSpace) : cut).trim();
+}
@@ -0,0 +1,229 @@
+import { DUPLICATE_DETECTION_CONFIG } from './constants';
+import { cleanMarkdown } from './contentExtractor';
+import type {
+  DuplicateDetectionResult,
+  DuplicateDetectionSensitivity,
+  TitleMatch,
+} from './types';
+
+/**
+ * Options for {@link detectDuplicateTitle}
+ */
+export interface DuplicateDetectionOptions {
+  sensitivity: DuplicateDetectionSensitivity;
+  /** Only count lines that equal the title after normalizing */
+  exactOnly: boolean;
+  /**
+   * Asked about lines that are just below the similarity threshold. Without
+   * it those lines are kept.
+   */
+  tieBreaker?: (title: string, text: string) => Promise<boolean>;
+}
+
+/**
+ * Find lines at the start of a note that repeat the title, e.g. a `# Heading`
+ * or a bold first line with the same text. Only the first few non-empty lines
+ * after the frontmatter are compared; scanning stops at a code block or table.
+ */
+export async function detectDuplicateTitle(
+  title: string,
+  content: string,
+  options: DuplicateDetectionOptions
+): Promise<DuplicateDetectionResult> {
+  const normalizedTitle = normalizeForComparison(title);
+  const threshold = DUPLICATE_DETECTION_CONFIG.THRESHOLDS[options.sensitivity];
+  const matches: TitleMatch[] = [];
+  if (!normalizedTitle) {
+    return { found: false, matches, totalMatches: 0 };
+  }
+
+  const lines = content.split('\n');
+  const bodyStart = findBodyStart(lines);
+  let offset = 0;
+  let scanned = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const startIndex = offset;
+    offset += line.length + 1;
+    if (i < bodyStart || !line.trim()) {
+      continue;
+    }
+    if (
+      scanned >= DUPLICATE_DETECTION_CONFIG.SCAN_LINES ||
+      /^\s*(```|~~~|\|)/.test(line)
+    ) {
+      break;
+    }
+    scanned++;
+
+    const text = normalizeForComparison(stripBlockMarkers(line));
+    if (!text) {
+      continue;
+    }
+    const similarity = calculateSimilarity(normalizedTitle, text);
+    const isMatch = options.exactOnly
+      ? similarity === 1
+      : similarity >= threshold ||
+        (similarity >= threshold - DUPLICATE_DETECTION_CONFIG.TIE_MARGIN &&
+          options.tieBreaker !== undefined &&
+          (await options.tieBreaker(title, line.trim())));
+    if (isMatch) {
+      const headerLevel = line.match(/^(#{1,6})\s/)?.[1].length;
+      matches.push({
+        startIndex,
+        endIndex: startIndex + line.length,
+        matchedText: line,
+        similarity,
+        lineNumber: i + 1,
+        isMarkdownHeader: headerLevel !== undefined,
+        headerLevel,
+      });
+    }
+  }
+
+  return {
+    found: matches.length > 0,
+    matches,
+    contentWithoutDuplicates:
+      matches.length > 0 ? removeMatches(content, matches) : undefined,
+    totalMatches: matches.length,
+  };
+}
+
+/**
+ * Remove matched lines from a note
+ * @param preserveFormatting Keep the blank lines around removed lines
+ * @returns The new content, or undefined if nothing but frontmatter would be
+ *   left
+ */
+export function removeMatches(
+  content: string,
+  matches: TitleMatch[],
+  preserveFormatting = false
+): string | undefined {
+  const lines = content.split('\n');
+  const removed = getRemovedLines(lines, matches, preserveFormatting);
+  const bodyStart = findBodyStart(lines);
+  const remaining = lines.filter((_, index) => !removed.has(index));
+  if (!remaining.slice(bodyStart).some((line) => line.trim())) {
+    return undefined;
+  }
+  return remaining.join('\n');
+}
+
+/**
+ * Indexes of the lines {@link removeMatches} drops: the matched lines and,
+ * unless formatting is preserved, the blank line after each one and any blank
+ * lines that would be left at the top of the body
+ */
+export function getRemovedLines(
+  lines: string[],
+  matches: TitleMatch[],
+  preserveFormatting: boolean
+): Set<number> {
+  const removed = new Set(matches.map((match) => match.lineNumber - 1));
+  if (preserveFormatting) {
+    return removed;
+  }
+  matches.forEach((match) => {
+    if (
+      lines[match.lineNumber] !== undefined &&
+      !lines[match.lineNumber].trim()
+    ) {
+      removed.add(match.lineNumber);
+    }
+  });
+  for (
+    let index = findBodyStart(lines);
+    index < lines.length && (removed.has(index) || !lines[index].trim());
+    index++
+  ) {
+    removed.add(index);
+  }
+  return removed;
+}
+
+/**
+ * Similarity of two strings from 0 to 1, based on their edit distance
+ */
+export function calculateSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest;
+}
+
+/**
+ * Reduce text to lowercase words: drops link syntax, punctuation, emoji,
+ * formatting characters and accents
+ */
+export function normalizeForComparison(text: string): string {
+  return cleanMarkdown(text)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Ask the AI whether a line only restates the title
+ * @param aiCallFunction Sends a prompt and returns the answer text
+ */
+export async function confirmDuplicateWithAI(
+  title: string,
+  text: string,
+  aiCallFunction: (prompt: string, content: string) => Promise<string>
+): Promise<boolean> {
+  const prompt = `Decide whether a line from the start of a note only repeats the note's title.
+
+Title: "${title}"
+
+Line:
+"${text}"
+
+Ignore formatting such as # - * ** \` and emojis. Respond "DUPLICATE" if the line states nothing beyond the title. Respond "DIFFERENT" if it introduces a new topic, a section, details, examples or instructions.
+
+Only respond with exactly: "DUPLICATE" or "DIFFERENT"
+
+Response:`;
+  const response = await aiCallFunction(prompt, '');
+  return response.trim().toUpperCase().startsWith('DUPLICATE');
+}
+
+/**
+ * Index of the first line after YAML frontmatter
+ */
+function findBodyStart(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') {
+    return 0;
+  }
+  const frontmatterEnd = lines.findIndex(
+    (line, index) => index > 0 && line.trim() === '---'
+  );
+  return frontmatterEnd > 0 ? frontmatterEnd + 1 : 0;
+}
+
+/**
+ * Drop heading, list, task and quote markers from the start of a line
+ */
+function stripBlockMarkers(line: string): string {
+  return line
+    .replace(/^\s*(?:>\s*)*/, '')
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/^(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/, '');
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,118 @@
+import { App, Modal } from 'obsidian';
+
+import { DUPLICATE_DETECTION_CONFIG, UI_CONFIG } from './constants';
+import type { DuplicateRemovalChoice } from './types';
+
+/**
+ * Modal that shows the top of a note as a diff, with the lines that duplicate
+ * the title marked for removal. Nothing is changed until the user accepts.
+ */
+export class DuplicateRemovalModal extends Modal {
+  private fileName: string;
+  private lines: string[];
+  private removed: Set<number>;
+  private onChoose: (choice: DuplicateRemovalChoice) => void;
+  private settled = false;
+
+  constructor(
+    app: App,
+    fileName: string,
+    lines: string[],
+    removed: Set<number>,
+    onChoose: (choice: DuplicateRemovalChoice) => void
+  ) {
+    super(app);
+    this.fileName = fileName;
+    this.lines = lines;
+    this.removed = removed;
+    this.onChoose = onChoose;
+  }
+
+  /**
+   * Open the modal and resolve with the user's choice. Closing the modal
+   * counts as `skip`.
+   * @param removed Indexes of the lines that would be removed
+   */
+  static confirm(
+    app: App,
+    fileName: string,
+    lines: string[],
+    removed: Set<number>
+  ): Promise<DuplicateRemovalChoice> {
+    return new Promise((resolve) => {
+      new DuplicateRemovalModal(app, fileName, lines, removed, resolve).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Remove duplicate title?');
+
+    contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_CURRENT,
+      text: `These lines at the top of ${this.fileName} repeat the new title:`,
+    });
+
+    const diffEl = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.DIFF_VIEW,
+    });
+    const indexes = [...this.removed];
+    const context = DUPLICATE_DETECTION_CONFIG.DIFF_CONTEXT_LINES;
+    const first = Math.max(0, Math.min(...indexes) - context);
+    const last = Math.min(
+      this.lines.length - 1,
+      Math.max(...indexes) + context
+    );
+    if (first > 0) {
+      diffEl.createDiv({ text: '  ...' });
+    }
+    for (let index = first; index <= last; index++) {
+      const isRemoved = this.removed.has(index);
+      diffEl.createDiv({
+        text: `${isRemoved ? '-' : ' '} ${this.lines[index]}`,
+        cls: isRemoved ? UI_CONFIG.CSS_CLASSES.DIFF_REMOVED : undefined,
+      });
+    }
+    if (last < this.lines.length - 1) {
+      diffEl.createDiv({ text: '  ...' });
+    }
+
+    const buttonsEl = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_BUTTONS,
+    });
+    const skipButton = buttonsEl.createEl('button', { text: 'Keep lines' });
+    skipButton.addEventListener('click', () => this.choose('skip'));
+    const alwaysButton = buttonsEl.createEl('button', {
+      text: 'Always remove',
+    });
+    alwaysButton.addEventListener('click', () => this.choose('always'));
+    const acceptButton = buttonsEl.createEl('button', {
+      text: 'Remove',
+      cls: 'mod-cta',
+    });
+    acceptButton.addEventListener('click', () => this.choose('accept'));
+    acceptButton.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.settle('skip');
+  }
+
+  private choose(choice: DuplicateRemovalChoice): void {
+    this.settle(choice);
+    this.close();
+  }
+
+  /**
+   * Report the outcome exactly once, whichever way the modal is closed
+   */
+  private settle(choice: DuplicateRemovalChoice): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    this.onChoose(choice);
+  }
+}
@@ -1,6 +1,9 @@
 import { Notice } from 'obsidian';
-import { getLogger } from './logger';
+
+import { redactSecrets, redactValue } from './apiKeys';
 import { ERROR_MESSAGES, UI_CONFIG } from './constants';
+import { getEventBus } from './eventBus';
+import { getLogger } from './logger';
 import type { AIProvider } from './types';
 
 /**
@@ -21,12 +24,13 @@ export class TitleGeneratorError extends Error {
     statusCode?: number,
     context?: any
   ) {
-    super(message);
+    // Messages can quote request URLs or response bodies
+    super(redactSecrets(message));
     this.name = 'TitleGeneratorError';
     this.code = code;
     this.provider = provider;
     this.statusCode = statusCode;
-    this.userMessage = userMessage;
+    this.userMessage = redactSecrets(userMessage);
     this.context = context;
   }
 }
@@ -66,14 +70,22 @@ export class ErrorHandler {
       stack: error.stack,
     });
 
+    getEventBus().emit('error-occurred', {
+      code: processedError.code,
+      message: processedError.message,
+      provider: processedError.provider,
+      context: redactValue(processedError.context),
+    });
+
     // Show user-friendly notification
     this.showUserNotification(processedError);
   }
 
   /**
-   * Process raw errors into TitleGeneratorError format
+   * Process raw errors into TitleGeneratorError format, whose `userMessage`
+   * says what the user can do about them
    */
-  private processError(error: Error | TitleGeneratorError, context?: any): TitleGeneratorError {
+  public processError(error: Error | TitleGeneratorError, context?: any): TitleGeneratorError {
     if (error instanceof TitleGeneratorError) {
       return error;
     }
@@ -237,6 +249,7 @@ export class ErrorHandler {
       case 'RATE_LIMIT':
       case 'TIMEOUT':
       case 'NETWORK_ERROR':
+      case 'SERVER_ERROR':
         return UI_CONFIG.NOTIFICATION_DURATION.MEDIUM;
       
       default:
@@ -277,6 +290,127 @@ export class ErrorHandler {
     );
   }
 
+  /**
+   * Create an error for a non-success HTTP status
+   */
+  public createHttpError(
+    status: number,
+    responseText: string,
+    provider: AIProvider,
+    providerName: string
+  ): TitleGeneratorError {
+    const message = `${providerName} API error (${status}): ${responseText}`;
+
+    if (status === 401) {
+      return new TitleGeneratorError(
+        message,
+        'UNAUTHORIZED',
+        'Invalid API key. Please check your credentials and try again.',
+        provider,
+        status,
+        { type: ErrorType.API }
+      );
+    }
+
+    if (status === 403) {
+      return new TitleGeneratorError(
+        message,
+        'FORBIDDEN',
+        'Access denied. Please check your API key permissions.',
+        provider,
+        status,
+        { type: ErrorType.API }
+      );
+    }
+
+    if (status === 429) {
+      return new TitleGeneratorError(
+        message,
+        'RATE_LIMIT',
+        ERROR_MESSAGES.RATE_LIMIT_ERROR,
+        provider,
+        status,
+        { type: ErrorType.API }
+      );
+    }
+
+    if (status >= 500) {
+      return new TitleGeneratorError(
+        message,
+        'SERVER_ERROR',
+        'Server error. Please try again later.',
+        provider,
+        status,
+        { type: ErrorType.API }
+      );
+    }
+
+    return this.createApiError(message, provider, status);
+  }
+
+  /**
+   * Create an error for a request that did not answer in time
+   */
+  public createTimeoutError(
+    providerName: string,
+    timeout: number,
+    provider?: AIProvider
+  ): TitleGeneratorError {
+    return new TitleGeneratorError(
+      `${providerName} request timed out after ${timeout}ms`,
+      'TIMEOUT',
+      ERROR_MESSAGES.TIMEOUT_ERROR,
+      provider,
+      undefined,
+      { type: ErrorType.NETWORK }
+    );
+  }
+
+  /**
+   * Create an error for a request that failed before any response arrived
+   */
+  public createNetworkError(
+    message: string,
+    provider?: AIProvider
+  ): TitleGeneratorError {
+    return new TitleGeneratorError(
+      `Network error: ${message}`,
+      'NETWORK_ERROR',
+      ERROR_MESSAGES.NETWORK_ERROR,
+      provider,
+      undefined,
+      { type: ErrorType.NETWORK }
+    );
+  }
+
+  /**
+   * Create an error for a request the user stopped
+   */
+  public createCancelledError(provider?: AIProvider): TitleGeneratorError {
+    return new TitleGeneratorError(
+      'Request cancelled by user',
+      'CANCELLED',
+      ERROR_MESSAGES.CANCELLED,
+      provider,
+      undefined,
+      { type: ErrorType.GENERATION }
+    );
+  }
+
+  /**
+   * Create an error for a request blocked by the spending limit
+   */
+  public createBudgetExceededError(limit: number, period: string, provider?: AIProvider): TitleGeneratorError {
+    return new TitleGeneratorError(
+      `Spending limit of $${limit} per ${period} reached`,
+      'BUDGET_EXCEEDED',
+      ERROR_MESSAGES.BUDGET_EXCEEDED,
+      provider,
+      undefined,
+      { type: ErrorType.CONFIGURATION }
+    );
+  }
+
   /**
    * Create a validation error
    */
@@ -0,0 +1,94 @@
+/**
+ * Typed event bus for plugin events
+ * Lets other plugins and scripts follow what the plugin does without
+ * depending on its internals
+ */
+
+import { getLogger } from './logger';
+import type {
+  PluginEvent,
+  PluginEventDataMap,
+  PluginEventListener,
+  PluginEventType,
+} from './types';
+
+export class PluginEventBus {
+  private listeners = new Map<PluginEventType, Set<PluginEventListener<any>>>();
+
+  /**
+   * Subscribe to one event type
+   * @returns A function that removes the listener again
+   */
+  on<T extends PluginEventType>(
+    type: T,
+    listener: PluginEventListener<T>
+  ): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Remove a listener added with {@link on}
+   */
+  off<T extends PluginEventType>(
+    type: T,
+    listener: PluginEventListener<T>
+  ): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Call every listener for an event. A failing listener is logged and does
+   * not stop the others or the plugin.
+   */
+  emit<T extends PluginEventType>(type: T, data: PluginEventDataMap[T]): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners || listeners.size === 0) {
+      return;
+    }
+
+    const event: PluginEvent<T> = { type, timestamp: Date.now(), data };
+    // Payloads carry titles and paths, so only the type is logged
+    getLogger().debug(`Event ${type}`);
+    [...listeners].forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        getLogger().warn(`Listener for ${type} failed`, error);
+      }
+    });
+  }
+
+  /**
+   * Remove all listeners, e.g. when the plugin unloads
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
+
+// Global event bus instance
+let eventBusInstance: PluginEventBus | null = null;
+
+/**
+ * Initialize the global event bus
+ */
+export function initializeEventBus(): PluginEventBus {
+  eventBusInstance = new PluginEventBus();
+  return eventBusInstance;
+}
+
+/**
+ * Get the global event bus instance
+ */
+export function getEventBus(): PluginEventBus {
+  if (!eventBusInstance) {
+    throw new Error('Event bus not initialized. Call initializeEventBus first.');
+  }
+  return eventBusInstance;
+}
@@ -0,0 +1,145 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+
+import { HISTORY_CONFIG, UI_CONFIG } from './constants';
+import type { RenameJournal } from './renameJournal';
+import type { RenameJournalEntry } from './types';
+
+/**
+ * Side pane listing the rename journal, grouped by batch, with undo buttons
+ */
+export class HistoryView extends ItemView {
+  private journal: RenameJournal;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, journal: RenameJournal) {
+    super(leaf);
+    this.journal = journal;
+  }
+
+  getViewType(): string {
+    return HISTORY_CONFIG.VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return HISTORY_CONFIG.VIEW_TITLE;
+  }
+
+  getIcon(): string {
+    return HISTORY_CONFIG.VIEW_ICON;
+  }
+
+  async onOpen(): Promise<void> {
+    this.unsubscribe = this.journal.onChange(() => this.render());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private render(): void {
+    const container = this.contentEl;
+    container.empty();
+    container.createEl('h4', { text: 'Title generation history' });
+
+    const entries = this.journal.getEntries();
+    if (entries.length === 0) {
+      container.createDiv({ text: 'No renames recorded yet.' });
+      return;
+    }
+
+    // Consecutive entries with the same batch id form one group
+    const groups: RenameJournalEntry[][] = [];
+    entries.forEach((entry) => {
+      const lastGroup = groups[groups.length - 1];
+      if (
+        lastGroup &&
+        entry.batchId &&
+        lastGroup[0].batchId === entry.batchId
+      ) {
+        lastGroup.push(entry);
+      } else {
+        groups.push([entry]);
+      }
+    });
+
+    groups.forEach((group) => this.renderGroup(container, group));
+  }
+
+  private renderGroup(
+    container: HTMLElement,
+    group: RenameJournalEntry[]
+  ): void {
+    const groupEl = container.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.HISTORY_BATCH,
+    });
+    const { batchId } = group[0];
+
+    if (batchId) {
+      const headerEl = groupEl.createDiv();
+      headerEl.createSpan({
+        text: `Batch of ${group.length} · ${new Date(
+          group[group.length - 1].timestamp
+        ).toLocaleString()}`,
+      });
+      if (group.some((entry) => !entry.undone)) {
+        const undoBatchButton = headerEl.createEl('button', {
+          text: 'Undo batch',
+        });
+        undoBatchButton.addEventListener('click', () =>
+          this.runUndo(() => this.journal.undoBatch(batchId))
+        );
+      }
+    }
+
+    group.forEach((entry) => {
+      const entryEl = groupEl.createDiv({
+        cls: UI_CONFIG.CSS_CLASSES.HISTORY_ENTRY,
+      });
+      if (entry.undone) {
+        entryEl.addClass(UI_CONFIG.CSS_CLASSES.HISTORY_UNDONE);
+      }
+
+      const renamed = entry.newPath && entry.newPath !== entry.originalPath;
+      entryEl.createDiv({
+        text: renamed
+          ? `${entry.originalPath} → ${entry.newPath}`
+          : `${entry.originalPath} (content edited)`,
+      });
+
+      const details: string[] = [new Date(entry.timestamp).toLocaleString()];
+      if (entry.source) {
+        details.push(`by ${entry.source.model} (${entry.source.provider})`);
+      }
+      if (entry.removedContent) {
+        details.push(
+          `removed ${entry.removedContent.trim().split('\n').length} line(s)`
+        );
+      }
+      if (entry.undone) {
+        details.push('undone');
+      }
+      const detailsEl = entryEl.createDiv({ text: details.join(' · ') });
+      if (entry.removedContent) {
+        detailsEl.setAttr('title', entry.removedContent);
+      }
+
+      if (!entry.undone) {
+        const undoButton = entryEl.createEl('button', { text: 'Undo' });
+        undoButton.addEventListener('click', () =>
+          this.runUndo(() => this.journal.undoEntry(entry.id))
+        );
+      }
+    });
+  }
+
+  private async runUndo(action: () => Promise<unknown>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      new Notice(`Undo failed: ${(error as Error).message}`);
+      this.render();
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Shared HTTP layer for all provider requests
+ * Enforces timeouts and retries transient failures with exponential backoff
+ */
+
+import { requestUrl, RequestUrlResponse } from 'obsidian';
+
+import { API_CONFIG } from './constants';
+import { getErrorHandler, TitleGeneratorError } from './errorHandler';
+import { getLogger } from './logger';
+import { getProviderAdapter } from './providers';
+import type { AIProvider, ApiRequestConfig } from './types';
+import { sleep } from './utils';
+
+/**
+ * Send a provider request, retrying on 429, 5xx, timeouts and network errors.
+ * Non-success responses are turned into a TitleGeneratorError.
+ * @param signal Aborting it ends the wait for the next attempt with a
+ *   CANCELLED error. A request already sent still runs to completion.
+ */
+export async function sendApiRequest(
+  request: ApiRequestConfig,
+  provider: AIProvider,
+  signal?: AbortSignal
+): Promise<RequestUrlResponse> {
+  const errorHandler = getErrorHandler();
+  const adapter = getProviderAdapter(provider);
+  const providerName = adapter.name;
+  const timeout = request.timeout ?? API_CONFIG.TIMEOUT;
+  const maxRetries = request.retries ?? API_CONFIG.MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw errorHandler.createCancelledError(provider);
+    }
+    let retryAfter: number | undefined;
+
+    try {
+      getLogger().logApiRequest(
+        request.url,
+        request.method,
+        adapter.requiresApiKey
+      );
+      const response = await withTimeout(
+        requestUrl({
+          url: request.url,
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+          throw: false,
+        }),
+        timeout,
+        () => errorHandler.createTimeoutError(providerName, timeout, provider)
+      );
+      getLogger().logApiResponse(
+        response.status,
+        providerName,
+        response.status < 300
+      );
+
+      if (response.status >= 200 && response.status < 300) {
+        return response;
+      }
+
+      retryAfter = parseRetryAfter(response.headers);
+      throw errorHandler.createHttpError(
+        response.status,
+        response.text,
+        provider,
+        providerName
+      );
+    } catch (error) {
+      const processed =
+        error instanceof TitleGeneratorError
+          ? error
+          : errorHandler.createNetworkError(
+              (error as Error)?.message ?? String(error),
+              provider
+            );
+
+      if (attempt >= maxRetries || !errorHandler.isRetryableError(processed)) {
+        throw processed;
+      }
+
+      const delay = Math.min(
+        retryAfter ?? getBackoffDelay(attempt),
+        API_CONFIG.MAX_RETRY_DELAY
+      );
+      getLogger().warn(
+        `${providerName} request failed (${processed.code}), retrying in ${delay}ms (${attempt + 1}/${maxRetries})`
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Exponential backoff with equal jitter: half of RETRY_DELAY * 2^attempt plus
+ * a random share of the other half
+ */
+function getBackoffDelay(attempt: number): number {
+  const ceiling = API_CONFIG.RETRY_DELAY * 2 ** attempt;
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+/**
+ * Read a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(
+  headers: Record<string, string> | undefined
+): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const key = Object.keys(headers).find(
+    (name) => name.toLowerCase() === 'retry-after'
+  );
+  const value = key ? headers[key] : undefined;
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Reject with the given error if the promise does not settle in time.
+ * requestUrl cannot be aborted, so a late response is simply ignored.
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number,
+  createError: () => Error
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(createError()), timeout);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
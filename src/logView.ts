@@ -0,0 +1,111 @@
+import {
+  ItemView,
+  Notice,
+  WorkspaceLeaf,
+  moment,
+  normalizePath,
+} from 'obsidian';
+
+import { LOG_CONFIG, UI_CONFIG } from './constants';
+import type { Logger } from './logger';
+
+/**
+ * Side pane showing the logger's recent messages, with buttons to copy or
+ * export them for a bug report
+ */
+export class LogView extends ItemView {
+  private logger: Logger;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, logger: Logger) {
+    super(leaf);
+    this.logger = logger;
+  }
+
+  getViewType(): string {
+    return LOG_CONFIG.VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return LOG_CONFIG.VIEW_TITLE;
+  }
+
+  getIcon(): string {
+    return LOG_CONFIG.VIEW_ICON;
+  }
+
+  async onOpen(): Promise<void> {
+    this.unsubscribe = this.logger.onChange(() => this.render());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private render(): void {
+    const container = this.contentEl;
+    container.empty();
+    container.createEl('h4', { text: LOG_CONFIG.VIEW_TITLE });
+
+    const toolbarEl = container.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.LOG_TOOLBAR,
+    });
+    const copyButton = toolbarEl.createEl('button', { text: 'Copy' });
+    copyButton.addEventListener('click', () => this.copy());
+    const exportButton = toolbarEl.createEl('button', { text: 'Export' });
+    exportButton.addEventListener('click', () => this.export());
+    const clearButton = toolbarEl.createEl('button', { text: 'Clear' });
+    clearButton.addEventListener('click', () => this.logger.clearEntries());
+
+    const entries = this.logger.getEntries();
+    if (entries.length === 0) {
+      container.createDiv({ text: 'No messages logged yet.' });
+      return;
+    }
+
+    // Newest first, so recent problems are at the top
+    [...entries].reverse().forEach((entry) => {
+      const entryEl = container.createDiv({
+        cls: UI_CONFIG.CSS_CLASSES.LOG_ENTRY,
+        text: `${new Date(entry.timestamp).toLocaleTimeString()} ${entry.level.toUpperCase()} ${entry.message}`,
+      });
+      if (entry.level === 'warn') {
+        entryEl.addClass(UI_CONFIG.CSS_CLASSES.LOG_WARN);
+      } else if (entry.level === 'error') {
+        entryEl.addClass(UI_CONFIG.CSS_CLASSES.LOG_ERROR);
+      }
+      if (entry.details.length > 0) {
+        entryEl.setAttr('title', entry.details.join('\n'));
+      }
+    });
+  }
+
+  private async copy(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(this.logger.formatEntries());
+      new Notice('Log copied to the clipboard.');
+    } catch (error) {
+      new Notice(`Could not copy the log: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Save the log as a note in the vault root and open it
+   */
+  private async export(): Promise<void> {
+    const path = normalizePath(
+      `${LOG_CONFIG.VIEW_TITLE} ${moment().format('YYYY-MM-DD HHmmss')}.md`
+    );
+    try {
+      const file = await this.app.vault.create(
+        path,
+        `\`\`\`\n${this.logger.formatEntries()}\n\`\`\`\n`
+      );
+      await this.app.workspace.getLeaf(true).openFile(file);
+    } catch (error) {
+      new Notice(`Could not export the log: ${(error as Error).message}`);
+    }
+  }
+}
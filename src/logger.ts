@@ -1,15 +1,40 @@
 /**
  * Centralized logging service for the Title Generator plugin
- * Controls debug output and provides structured logging
+ * Filters output by level, keeps recent messages for the log pane and
+ * provides structured logging
+ * API keys are redacted from every message and argument
  */
 
+import { redactSecrets, redactValue } from './apiKeys';
+import { LOG_CONFIG } from './constants';
+import type { LogEntry, LogLevel } from './types';
+
 export interface LoggerConfig {
-  debugMode: boolean;
+  level: LogLevel;
+  /** Replace text wrapped with {@link loggedContent} by its length */
+  redactContent: boolean;
   pluginName: string;
 }
 
+/**
+ * Note text or a title passed to the logger, see {@link loggedContent}
+ */
+class LoggedContent {
+  constructor(readonly text: string) {}
+}
+
+/**
+ * Mark note text or a generated title in log arguments, so it can be left
+ * out of the log when content redaction is on
+ */
+export function loggedContent(text: string): LoggedContent {
+  return new LoggedContent(text);
+}
+
 export class Logger {
   private config: LoggerConfig;
+  private entries: LogEntry[] = [];
+  private listeners = new Set<() => void>();
 
   constructor(config: LoggerConfig) {
     this.config = config;
@@ -23,53 +48,113 @@ export class Logger {
   }
 
   /**
-   * Log debug information (only when debug mode is enabled)
+   * Log debug information, e.g. prompts and raw answers
    */
   debug(message: string, ...args: any[]): void {
-    if (this.config.debugMode) {
-      console.log(`[${this.config.pluginName}] DEBUG: ${message}`, ...args);
-    }
+    this.log('debug', message, ...args);
   }
 
   /**
-   * Log information (always logged)
+   * Log information
    */
   info(message: string, ...args: any[]): void {
-    console.log(`[${this.config.pluginName}] INFO: ${message}`, ...args);
+    this.log('info', message, ...args);
   }
 
   /**
-   * Log warnings (always logged)
+   * Log warnings
    */
   warn(message: string, ...args: any[]): void {
-    console.warn(`[${this.config.pluginName}] WARN: ${message}`, ...args);
+    this.log('warn', message, ...args);
   }
 
   /**
-   * Log errors (always logged)
+   * Log errors
    */
   error(message: string, ...args: any[]): void {
-    console.error(`[${this.config.pluginName}] ERROR: ${message}`, ...args);
+    this.log('error', message, ...args);
   }
 
   /**
-   * Log with custom level
+   * Log with custom level. Messages below the configured level are dropped.
    */
-  log(level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR', message: string, ...args: any[]): void {
+  log(level: LogEntry['level'], message: string, ...args: any[]): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const text = redactSecrets(message);
+    const safeArgs = args.map((arg) => redactValue(this.resolveContent(arg)));
+    const prefixed = `[${this.config.pluginName}] ${level.toUpperCase()}: ${text}`;
+    // The logger is the one place that writes to the console
+    /* eslint-disable no-console */
     switch (level) {
-      case 'DEBUG':
-        this.debug(message, ...args);
-        break;
-      case 'INFO':
-        this.info(message, ...args);
+      case 'warn':
+        console.warn(prefixed, ...safeArgs);
         break;
-      case 'WARN':
-        this.warn(message, ...args);
-        break;
-      case 'ERROR':
-        this.error(message, ...args);
+      case 'error':
+        console.error(prefixed, ...safeArgs);
         break;
+      default:
+        console.log(prefixed, ...safeArgs);
+    }
+    /* eslint-enable no-console */
+
+    this.entries.push({
+      timestamp: Date.now(),
+      level,
+      message: text,
+      details: safeArgs.map((arg) => this.serialize(arg)),
+    });
+    if (this.entries.length > LOG_CONFIG.BUFFER_SIZE) {
+      this.entries.splice(0, this.entries.length - LOG_CONFIG.BUFFER_SIZE);
     }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Whether messages of a level are currently logged
+   */
+  isEnabled(level: LogEntry['level']): boolean {
+    return LOG_CONFIG.LEVELS.indexOf(level) >= LOG_CONFIG.LEVELS.indexOf(this.config.level);
+  }
+
+  /**
+   * Recent messages, oldest first
+   */
+  getEntries(): LogEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Empty the message buffer
+   */
+  clearEntries(): void {
+    this.entries = [];
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Render the buffered messages as plain text, e.g. for a bug report
+   */
+  formatEntries(): string {
+    return this.entries
+      .map((entry) =>
+        [
+          `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase()} ${entry.message}`,
+          ...entry.details.map((detail) => `  ${detail}`),
+        ].join('\n')
+      )
+      .join('\n');
+  }
+
+  /**
+   * Subscribe to buffer changes
+   * @returns A function that removes the listener again
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
 
   /**
@@ -100,7 +185,7 @@ export class Logger {
   logSettingsChange(setting: string, oldValue: any, newValue: any): void {
     const safeOldValue = this.maskSensitiveData(setting, oldValue);
     const safeNewValue = this.maskSensitiveData(setting, newValue);
-    
+
     this.debug(`Settings changed: ${setting}`, {
       setting,
       oldValue: safeOldValue,
@@ -112,7 +197,47 @@ export class Logger {
    * Mask sensitive data in URLs
    */
   private maskSensitiveUrl(url: string): string {
-    return url.replace(/key=([^&]+)/g, 'key=***');
+    return redactSecrets(url);
+  }
+
+  /**
+   * Replace {@link loggedContent} markers, including those in arrays and plain
+   * objects, with the text or, when content is redacted, its length
+   */
+  private resolveContent(value: any): any {
+    if (value instanceof LoggedContent) {
+      return this.config.redactContent ? `[${value.text.length} characters]` : value.text;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveContent(item));
+    }
+    if (value && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, property]) => [key, this.resolveContent(property)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Turn a log argument into text for the buffer
+   */
+  private serialize(value: unknown): string {
+    let text: string;
+    if (value instanceof Error) {
+      text = value.stack ?? `${value.name}: ${value.message}`;
+    } else if (typeof value === 'string') {
+      text = value;
+    } else {
+      try {
+        text = JSON.stringify(value) ?? String(value);
+      } catch {
+        text = String(value);
+      }
+    }
+    return text.length > LOG_CONFIG.MAX_DETAIL_LENGTH
+      ? `${text.slice(0, LOG_CONFIG.MAX_DETAIL_LENGTH)}…`
+      : text;
   }
 
   /**
@@ -154,4 +279,4 @@ export function updateLoggerConfig(config: Partial<LoggerConfig>): void {
   if (loggerInstance) {
     loggerInstance.updateConfig(config);
   }
-}
\ No newline at end of file
+}
@@ -1,33 +1,157 @@
-import { App, Editor, Notice, Plugin, TFile, normalizePath, Modal } from 'obsidian';
+import { Editor, Notice, Plugin, TFile, TFolder, normalizePath, setIcon, moment } from 'obsidian';
 import path from 'path-browserify';
+
 import { AIService } from './aiService';
+import { ApiKeyStore } from './apiKeyStore';
+import { setKnownSecrets } from './apiKeys';
+import { AutoTitleWatcher } from './autoTitleWatcher';
+import { BatchPreviewModal } from './batchPreviewModal';
+import { BatchQueue, SerialExecutor } from './batchQueue';
+import { buildBatchReport } from './batchReport';
+import { testConnection } from './connectionTest';
+import { ConnectionTestModal } from './connectionTestModal';
+import { ERROR_MESSAGES, HISTORY_CONFIG, LOG_CONFIG, PLUGIN_NAME, UI_CONFIG } from './constants';
+import { confirmDuplicateWithAI, detectDuplicateTitle, getRemovedLines, removeMatches } from './duplicateDetector';
+import { DuplicateRemovalModal } from './duplicateRemovalModal';
+import { initializeErrorHandler, TitleGeneratorError } from './errorHandler';
+import { initializeEventBus } from './eventBus';
+import { HistoryView } from './historyView';
+import { LogView } from './logView';
+import { initializeLogger, updateLoggerConfig } from './logger';
+import { ModelService } from './modelService';
+import { collectFolderNotes, collectTaggedNotes } from './noteScope';
+import { ProfilePickerModal } from './profilePickerModal';
+import { resolveProfile } from './profiles';
+import { createPromptContext } from './promptTemplate';
+import { getProviderAdapter, getProviderApiKey, getProviderIds } from './providers';
+import { RenameJournal } from './renameJournal';
+import { FolderPickerModal, PatternPromptModal, TagPickerModal } from './scopePickerModals';
 import { DEFAULT_SETTINGS, TitleGeneratorSettingTab } from './settings';
-import { initializeLogger, getLogger, updateLoggerConfig } from './logger';
-import { initializeErrorHandler, getErrorHandler } from './errorHandler';
-import { initializeValidationService, getValidationService } from './validation';
-import { PLUGIN_NAME, UI_CONFIG } from './constants';
-import { detectAndRemoveDuplicateWithAI } from './utils';
-import type { TitleGeneratorSettings, FileOperationResult, BatchOperationProgress } from './types';
+import { TitleChooserModal } from './titleChooserModal';
+import type {
+  AIProvider,
+  TitleGeneratorSettings,
+  FileOperationResult,
+  BatchOperationProgress,
+  BatchOperationStatus,
+  BatchRenameItem,
+  BatchItemResult,
+  BatchItemStatus,
+  PromptProfile,
+  TitleRequestOptions,
+  ContentModificationOptions,
+  ApiTitleOptions,
+  TitleGeneratorApi,
+  TitleResult,
+  TitleSource,
+} from './types';
+import { UsageTracker } from './usageTracker';
+import { diffLeadingContent, setFirstHeading } from './utils';
+import { initializeValidationService } from './validation';
 
+/**
+ * Per-call overrides for the single file pipeline
+ */
+interface TitleProcessingOptions {
+  /** Show the candidate chooser instead of renaming straight away */
+  chooseTitle?: boolean;
+  /** Use this profile instead of the one matched by the profile rules */
+  profile?: PromptProfile;
+  /** Started by the auto-title watcher, so no modal may be opened */
+  automatic?: boolean;
+}
 
+/**
+ * How {@link TitleGeneratorPlugin.applyTitle} writes a title to a note
+ */
+interface ApplyTitleOptions {
+  /** Groups the history entries of a batch run */
+  batchId?: string;
+  /** Provider that generated the title, recorded in the history */
+  source?: TitleSource;
+  /** Started by the auto-title watcher or the API, see {@link TitleGeneratorPlugin.handleDuplicateTitles} */
+  automatic?: boolean;
+  /** Template context and profile for the filename template */
+  requestOptions?: TitleRequestOptions;
+  /** Use this filename as is instead of applying the title template */
+  fileName?: string;
+}
 
 export default class TitleGeneratorPlugin extends Plugin {
   settings: TitleGeneratorSettings;
   aiService: AIService;
-  private logger = initializeLogger({ debugMode: false, pluginName: PLUGIN_NAME });
+  renameJournal: RenameJournal;
+  usageTracker: UsageTracker;
+  modelService: ModelService;
+  /** Public API for other plugins and scripts, see {@link TitleGeneratorApi} */
+  api: TitleGeneratorApi;
+  private autoTitleWatcher: AutoTitleWatcher;
+  private fileOperations = new SerialExecutor();
+  /** Re-runs the failed files of the most recent batch, if any failed */
+  private retryFailedBatch: (() => Promise<void>) | null = null;
+  /** Single-note generations that can still be stopped */
+  private activeGenerations = new Set<AbortController>();
+  private logger = initializeLogger({ level: 'info', redactContent: true, pluginName: PLUGIN_NAME });
   private errorHandler = initializeErrorHandler();
   private validationService = initializeValidationService();
+  private events = initializeEventBus();
+  private apiKeyStore = new ApiKeyStore(this.app);
 
   async onload() {
     try {
       await this.loadSettings();
       this.addStyles();
 
-      // Update logger with current debug mode setting
-      updateLoggerConfig({ debugMode: this.settings.debugMode });
+      // Apply the configured log level and content redaction
+      this.updateLoggerSettings();
 
       // Initialize AI service with enhanced error handling
-      this.aiService = new AIService(() => this.settings);
+      this.usageTracker = new UsageTracker(
+        () => this.settings,
+        () => this.saveInternalState()
+      );
+      // Usage not yet saved would otherwise be lost on unload
+      this.register(() =>
+        this.usageTracker.flush().catch((error) => this.logger.error('Failed to save usage', error))
+      );
+      this.aiService = new AIService(() => this.settings, this.usageTracker);
+      this.modelService = new ModelService(
+        () => this.settings,
+        () => this.saveInternalState()
+      );
+      this.renameJournal = new RenameJournal(
+        this.app,
+        () => this.settings,
+        () => this.saveInternalState()
+      );
+
+      this.api = {
+        generateTitle: (file, options) => this.generateTitleForApi(file, options),
+        suggestTitles: (content, count = this.settings.titleCandidateCount) =>
+          this.aiService.generateTitleCandidates(this.validationService.sanitizeInput(content), count),
+        on: (type, listener) => this.events.on(type, listener),
+        off: (type, listener) => this.events.off(type, listener),
+      };
+      this.register(() => this.events.clear());
+
+      // Untitled notes get a title once they have been idle for a while
+      this.autoTitleWatcher = new AutoTitleWatcher(
+        this.app,
+        () => this.settings,
+        (file, content) => this.processSingleFile(file, content, { chooseTitle: false, automatic: true })
+      );
+      this.registerEvent(this.app.vault.on('modify', (file) => this.autoTitleWatcher.handleModify(file)));
+      this.registerEvent(
+        this.app.vault.on('rename', (file, oldPath) => this.autoTitleWatcher.handleRename(file, oldPath))
+      );
+      this.registerEvent(this.app.vault.on('delete', (file) => this.autoTitleWatcher.handleDelete(file)));
+      this.register(() => this.autoTitleWatcher.stop());
+
+      this.registerView(
+        HISTORY_CONFIG.VIEW_TYPE,
+        (leaf) => new HistoryView(leaf, this.renameJournal)
+      );
+      this.registerView(LOG_CONFIG.VIEW_TYPE, (leaf) => new LogView(leaf, this.logger));
 
       this.addCommand({
       id: 'generate-title',
@@ -35,6 +159,111 @@ export default class TitleGeneratorPlugin extends Plugin {
       editorCallback: (editor: Editor) => this.generateTitleForEditor(editor),
     });
 
+      this.addCommand({
+        id: 'undo-last-rename',
+        name: 'Undo last title rename',
+        callback: () => this.undoLastRename(),
+      });
+
+      this.addCommand({
+        id: 'undo-last-batch',
+        name: 'Undo last batch of title renames',
+        callback: () => this.undoLastBatch(),
+      });
+
+      this.addCommand({
+        id: 'show-rename-history',
+        name: 'Show title generation history',
+        callback: () => this.showView(HISTORY_CONFIG.VIEW_TYPE),
+      });
+
+      this.addCommand({
+        id: 'show-log',
+        name: 'Show log',
+        callback: () => this.showView(LOG_CONFIG.VIEW_TYPE),
+      });
+
+      this.addCommand({
+        id: 'test-connection',
+        name: 'Test connection to AI provider',
+        callback: () => this.testConnection(this.settings.aiProvider),
+      });
+
+      this.addCommand({
+        id: 'retry-failed-titles',
+        name: 'Retry failed notes from last batch',
+        callback: () => this.retryLastFailedBatch(),
+      });
+
+      this.addCommand({
+        id: 'generate-titles-in-folder',
+        name: 'Generate titles for all notes in a folder',
+        callback: async () => {
+          const folder = await FolderPickerModal.pick(this.app);
+          if (folder) {
+            await this.generateTitlesForFolder(folder);
+          }
+        },
+      });
+
+      this.addCommand({
+        id: 'generate-titles-with-tag',
+        name: 'Generate titles for notes with a tag',
+        callback: async () => {
+          const tag = await TagPickerModal.pick(this.app);
+          if (tag) {
+            await this.generateTitlesForScope(`#${tag}`, collectTaggedNotes(this.app, tag));
+          }
+        },
+      });
+
+      this.addCommand({
+        id: 'generate-titles-matching',
+        name: 'Generate titles for notes matching a search',
+        callback: async () => {
+          const files = await PatternPromptModal.pick(this.app);
+          if (files) {
+            await this.generateTitlesForScope('matching notes', files);
+          }
+        },
+      });
+
+      this.addCommand({
+        id: 'generate-title-with-profile',
+        name: 'Generate title for current note with profile...',
+        editorCallback: async (editor: Editor) => {
+          if (this.settings.profiles.length === 0) {
+            new Notice('No profiles defined. Add one under Profiles in the plugin settings.');
+            return;
+          }
+          const profile = await ProfilePickerModal.pick(this.app, this.settings.profiles);
+          if (profile) {
+            await this.generateTitleForEditor(editor, { profile });
+          }
+        },
+      });
+
+      this.addCommand({
+        id: 'stop-title-generation',
+        name: 'Stop title generation',
+        checkCallback: (checking: boolean) => {
+          if (this.activeGenerations.size === 0) {
+            return false;
+          }
+          if (!checking) {
+            this.activeGenerations.forEach((controller) => controller.abort());
+          }
+          return true;
+        },
+      });
+
+      this.addCommand({
+        id: 'choose-title',
+        name: 'Choose from title suggestions for current note',
+        editorCallback: (editor: Editor) =>
+          this.generateTitleForEditor(editor, { chooseTitle: true }),
+      });
+
     this.registerEvent(
       this.app.workspace.on('file-menu', (menu, file) => {
         if (file instanceof TFile && file.extension === 'md') {
@@ -44,6 +273,13 @@ export default class TitleGeneratorPlugin extends Plugin {
               .setIcon('lucide-edit-3')
               .onClick(() => this.generateTitleForFile(file))
           );
+        } else if (file instanceof TFolder) {
+          menu.addItem((item) =>
+            item
+              .setTitle('Generate titles for notes in folder')
+              .setIcon('lucide-edit-3')
+              .onClick(() => this.generateTitlesForFolder(file))
+          );
         }
       })
     );
@@ -59,8 +295,20 @@ export default class TitleGeneratorPlugin extends Plugin {
             item
               .setTitle(`Generate titles for ${markdownFiles.length} notes`)
               .setIcon('lucide-edit-3')
-              .onClick(() => this.generateTitlesForMultipleFiles(markdownFiles))
+              .onClick(() =>
+                this.settings.previewBatchRenames
+                  ? this.previewTitlesForMultipleFiles(markdownFiles)
+                  : this.generateTitlesForMultipleFiles(markdownFiles)
+              )
           );
+          if (!this.settings.previewBatchRenames) {
+            menu.addItem((item) =>
+              item
+                .setTitle(`Preview titles for ${markdownFiles.length} notes`)
+                .setIcon('lucide-list-checks')
+                .onClick(() => this.previewTitlesForMultipleFiles(markdownFiles))
+            );
+          }
         }
       })
     );
@@ -109,6 +357,151 @@ export default class TitleGeneratorPlugin extends Plugin {
         background-color: var(--background-modifier-success);
         color: var(--text-on-accent);
       }
+      .${UI_CONFIG.CSS_CLASSES.CHOOSER_CURRENT} {
+        color: var(--text-muted);
+        margin-bottom: 8px;
+      }
+      .${UI_CONFIG.CSS_CLASSES.CHOOSER_LIST} {
+        border: 1px solid var(--background-modifier-border);
+        border-radius: var(--radius-m);
+        max-height: ${UI_CONFIG.MAX_DROPDOWN_HEIGHT}px;
+        overflow-y: auto;
+        margin-bottom: 8px;
+      }
+      .${UI_CONFIG.CSS_CLASSES.CHOOSER_ITEM} {
+        padding: 6px 12px;
+        cursor: pointer;
+      }
+      .${UI_CONFIG.CSS_CLASSES.CHOOSER_ITEM}:hover {
+        background-color: var(--background-modifier-hover);
+      }
+      .${UI_CONFIG.CSS_CLASSES.CHOOSER_ITEM}.${UI_CONFIG.CSS_CLASSES.SEARCH_ITEM_SELECTED} {
+        background-color: var(--interactive-accent);
+        color: var(--text-on-accent);
+      }
+      .${UI_CONFIG.CSS_CLASSES.CHOOSER_INPUT} {
+        width: 100%;
+        box-sizing: border-box;
+      }
+      .${UI_CONFIG.CSS_CLASSES.BATCH_TABLE} {
+        max-height: 60vh;
+        overflow-y: auto;
+      }
+      .${UI_CONFIG.CSS_CLASSES.BATCH_TABLE} table {
+        width: 100%;
+        border-collapse: collapse;
+      }
+      .${UI_CONFIG.CSS_CLASSES.BATCH_TABLE} th,
+      .${UI_CONFIG.CSS_CLASSES.BATCH_TABLE} td {
+        padding: 4px 8px;
+        text-align: left;
+        border-bottom: 1px solid var(--background-modifier-border);
+      }
+      .${UI_CONFIG.CSS_CLASSES.BATCH_TABLE} td input[type='text'] {
+        width: 100%;
+        box-sizing: border-box;
+      }
+      .${UI_CONFIG.CSS_CLASSES.BATCH_ROW_FAILED} {
+        color: var(--text-error);
+      }
+      .${UI_CONFIG.CSS_CLASSES.HISTORY_BATCH} {
+        border-bottom: 1px solid var(--background-modifier-border);
+        padding: 8px 0;
+      }
+      .${UI_CONFIG.CSS_CLASSES.HISTORY_BATCH} button {
+        margin-left: 8px;
+      }
+      .${UI_CONFIG.CSS_CLASSES.HISTORY_ENTRY} {
+        padding: 4px 0;
+        font-size: var(--font-ui-small);
+        word-break: break-all;
+      }
+      .${UI_CONFIG.CSS_CLASSES.HISTORY_UNDONE} {
+        color: var(--text-faint);
+        text-decoration: line-through;
+      }
+      .${UI_CONFIG.CSS_CLASSES.BATCH_STATUS_BUTTON} {
+        cursor: pointer;
+        margin-left: 6px;
+        display: inline-flex;
+        vertical-align: middle;
+      }
+      .${UI_CONFIG.CSS_CLASSES.BATCH_STATUS_BUTTON} svg {
+        width: 14px;
+        height: 14px;
+      }
+      .${UI_CONFIG.CSS_CLASSES.PROMPT_PREVIEW} {
+        white-space: pre-wrap;
+        word-break: break-word;
+        font-size: var(--font-ui-small);
+        background-color: var(--background-secondary);
+        border-radius: var(--radius-m);
+        padding: 8px 12px;
+        max-height: 200px;
+        overflow-y: auto;
+      }
+      .${UI_CONFIG.CSS_CLASSES.CONNECTION_CHECK} {
+        padding: 6px 0;
+        border-bottom: 1px solid var(--background-modifier-border);
+      }
+      .${UI_CONFIG.CSS_CLASSES.CONNECTION_CHECK}.is-passed {
+        color: var(--text-success);
+      }
+      .${UI_CONFIG.CSS_CLASSES.CONNECTION_CHECK}.is-warning {
+        color: var(--text-warning);
+      }
+      .${UI_CONFIG.CSS_CLASSES.CONNECTION_CHECK}.is-failed {
+        color: var(--text-error);
+      }
+      .${UI_CONFIG.CSS_CLASSES.CONNECTION_CHECK}.is-skipped {
+        color: var(--text-faint);
+      }
+      .${UI_CONFIG.CSS_CLASSES.CONNECTION_HINT} {
+        color: var(--text-muted);
+        font-size: var(--font-ui-small);
+        margin-left: 1.2em;
+      }
+      .${UI_CONFIG.CSS_CLASSES.LOG_TOOLBAR} {
+        display: flex;
+        gap: 8px;
+        margin-bottom: 8px;
+      }
+      .${UI_CONFIG.CSS_CLASSES.LOG_ENTRY} {
+        font-family: var(--font-monospace);
+        font-size: var(--font-ui-smaller);
+        white-space: pre-wrap;
+        word-break: break-word;
+        padding: 2px 0;
+        border-bottom: 1px solid var(--background-modifier-border);
+      }
+      .${UI_CONFIG.CSS_CLASSES.LOG_WARN} {
+        color: var(--text-warning);
+      }
+      .${UI_CONFIG.CSS_CLASSES.LOG_ERROR} {
+        color: var(--text-error);
+      }
+      .${UI_CONFIG.CSS_CLASSES.DIFF_VIEW} {
+        font-family: var(--font-monospace);
+        font-size: var(--font-ui-small);
+        white-space: pre-wrap;
+        word-break: break-word;
+        background-color: var(--background-secondary);
+        border-radius: var(--radius-m);
+        padding: 8px 12px;
+        max-height: 300px;
+        overflow-y: auto;
+      }
+      .${UI_CONFIG.CSS_CLASSES.DIFF_REMOVED} {
+        color: var(--text-error);
+        background-color: rgba(var(--color-red-rgb), 0.1);
+        text-decoration: line-through;
+      }
+      .${UI_CONFIG.CSS_CLASSES.CHOOSER_BUTTONS} {
+        display: flex;
+        justify-content: flex-end;
+        gap: 8px;
+        margin-top: 12px;
+      }
     `;
     const styleEl = document.createElement('style');
     styleEl.id = 'title-generator-styles';
@@ -118,23 +511,107 @@ export default class TitleGeneratorPlugin extends Plugin {
   }
 
   async loadSettings() {
-    let loadedData = (await this.loadData()) || {};
+    const loadedData = (await this.loadData()) || {};
 
     // Migration for a typo in a previous version
     if (loadedData.openaiModel && !loadedData.openAiModel) {
-          if ((loadedData as any).debugMode) console.log('Migrating old setting `openaiModel` to `openAiModel`');
+      this.logger.debug('Migrating old setting `openaiModel` to `openAiModel`');
       loadedData.openAiModel = loadedData.openaiModel;
       delete loadedData.openaiModel;
     }
 
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
+    // `debugMode` was replaced by the `logLevel` setting
+    if (loadedData.debugMode !== undefined && loadedData.logLevel === undefined) {
+      loadedData.logLevel = loadedData.debugMode ? 'debug' : 'info';
+    }
+    delete loadedData.debugMode;
+
+    // Filenames are always sanitized, so `removeForbiddenChars` has no effect
+    delete loadedData.removeForbiddenChars;
+
+    // `lowerCaseTitles` was replaced by the `titleCasing` style
+    [loadedData, ...(loadedData.profiles ?? [])].forEach((target: any) => {
+      if (target.lowerCaseTitles !== undefined && target.titleCasing === undefined) {
+        target.titleCasing = target.lowerCaseTitles ? 'lower' : 'none';
+      }
+      delete target.lowerCaseTitles;
+    });
+    (loadedData.profiles ?? []).forEach((profile: any) => {
+      profile.titleCasing ??= DEFAULT_SETTINGS.titleCasing;
+      profile.preserveAcronyms ??= DEFAULT_SETTINGS.preserveAcronyms;
+      profile.titleTemplate ??= DEFAULT_SETTINGS.titleTemplate;
+    });
+
+    this.settings = { ...DEFAULT_SETTINGS, ...loadedData };
+
+    // Providers registered after the data was saved still need cache entries
+    this.settings.cachedModels = {
+      ...DEFAULT_SETTINGS.cachedModels,
+      ...loadedData.cachedModels,
+    };
+    this.settings.modelLoadingState = {
+      ...DEFAULT_SETTINGS.modelLoadingState,
+      ...loadedData.modelLoadingState,
+    };
+    this.settings.requestsPerMinute = {
+      ...DEFAULT_SETTINGS.requestsPerMinute,
+      ...loadedData.requestsPerMinute,
+    };
+
+    // Keys kept on this device are not part of the synced data
+    this.apiKeyStore.load(this.settings);
+    this.updateKnownSecrets();
   }
 
+  /**
+   * Save a change made by the user and tell listeners about it
+   */
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.saveInternalState();
+    this.updateKnownSecrets();
+    this.updateLoggerSettings();
+    this.events.emit('settings-changed', {});
+  }
+
+  /**
+   * Save data the plugin keeps for itself (usage, model lists, rename
+   * history) without announcing a settings change
+   */
+  async saveInternalState() {
+    await this.saveData(this.apiKeyStore.prepareForSave(this.settings));
+  }
+
+  /**
+   * Tell the redaction which keys to remove from logs and notices, both as
+   * entered and as resolved from environment variables
+   */
+  private updateKnownSecrets(): void {
+    setKnownSecrets(
+      getProviderIds().flatMap((provider) => [
+        this.settings[getProviderAdapter(provider).apiKeyField] as string,
+        getProviderApiKey(this.settings, provider),
+      ])
+    );
+  }
+
+  /**
+   * Check a provider's key, model and a test completion, showing the results
+   * in a modal
+   */
+  testConnection(provider: AIProvider): void {
+    new ConnectionTestModal(this.app, getProviderAdapter(provider).name, () =>
+      testConnection(provider, this.settings, this.modelService, this.usageTracker)
+    ).open();
+  }
+
+  private updateLoggerSettings(): void {
+    updateLoggerConfig({ level: this.settings.logLevel, redactContent: this.settings.redactLogContent });
   }
 
-  private async generateTitleForEditor(editor: Editor): Promise<void> {
+  private async generateTitleForEditor(
+    editor: Editor,
+    options: TitleProcessingOptions = {}
+  ): Promise<void> {
     try {
       const activeFile = this.app.workspace.getActiveFile();
       if (!activeFile) {
@@ -145,181 +622,891 @@ export default class TitleGeneratorPlugin extends Plugin {
         return;
       }
       const content = editor.getValue();
-      await this.processSingleFile(activeFile, content);
+      await this.processSingleFile(activeFile, content, options);
     } catch (error) {
       this.errorHandler.handleError(error as Error, { context: 'generate-title-editor' });
     }
   }
 
-  private async generateTitleForFile(file: TFile): Promise<void> {
+  private async generateTitleForFile(
+    file: TFile,
+    options: TitleProcessingOptions = {}
+  ): Promise<void> {
     try {
       const content = await this.app.vault.cachedRead(file);
-      await this.processSingleFile(file, content);
+      await this.processSingleFile(file, content, options);
     } catch (error) {
       this.errorHandler.handleError(error as Error, { context: 'generate-title-file', file: file.path });
     }
   }
 
   private async generateTitlesForMultipleFiles(files: TFile[]): Promise<void> {
-    const total = files.length;
-    const statusBarItem = this.addStatusBarItem();
-    const progress: BatchOperationProgress = {
-      total,
-      processed: 0,
-      succeeded: 0,
-      failed: 0,
-    };
+    this.logger.info(`Starting batch title generation for ${files.length} files`);
+    const batchId = RenameJournal.createBatchId();
+    const results: BatchItemResult[] = [];
+
+    const { progress, errors } = await this.runBatch(
+      'Generating titles',
+      files,
+      async (file, signal) => {
+        const result = await this.trackBatchItem(results, file.path, file.basename, () =>
+          this.processBatchFile(file, batchId, signal)
+        );
+        this.logger.debug(`Title generation ${result.status} for ${file.path}`);
+        return result.status;
+      },
+      (file) => file.basename
+    );
+
+    await this.finishBatch('Title generation', progress, results, errors, (failed) => {
+      const retryFiles = failed
+        .map((result) => this.app.vault.getAbstractFileByPath(result.path))
+        .filter((file): file is TFile => file instanceof TFile);
+      return this.generateTitlesForMultipleFiles(retryFiles);
+    });
+  }
 
-    const updateStatus = () => {
-      statusBarItem.setText(
-        `Generating titles: ${progress.processed}/${total} (${progress.succeeded} succeeded, ${progress.failed} failed)`
+  private async generateTitlesForFolder(folder: TFolder): Promise<void> {
+    await this.generateTitlesForScope(folder.isRoot() ? 'the vault' : folder.path, collectFolderNotes(folder));
+  }
+
+  /**
+   * Run a folder, tag or search scope through the batch pipeline, after
+   * dropping notes excluded by the bulk filters
+   * @param scope Describes the selection in notices, e.g. a folder path
+   */
+  private async generateTitlesForScope(scope: string, files: TFile[]): Promise<void> {
+    const selected = this.filterBulkCandidates(files);
+    const skipped = files.length - selected.length;
+
+    if (selected.length === 0) {
+      new Notice(
+        skipped > 0
+          ? `All ${files.length} notes in ${scope} were skipped by the bulk filters.`
+          : `No notes found in ${scope}.`
       );
-    };
+      return;
+    }
 
-    updateStatus();
-    this.logger.info(`Starting batch title generation for ${total} files`);
+    if (skipped > 0) {
+      new Notice(`Skipping ${skipped} already named or recently titled notes in ${scope}.`);
+    }
+    this.logger.info(`Bulk title generation for ${scope}: ${selected.length} notes, ${skipped} filtered out`);
 
-    const errors: Error[] = [];
+    if (this.settings.previewBatchRenames) {
+      await this.previewTitlesForMultipleFiles(selected);
+    } else {
+      await this.generateTitlesForMultipleFiles(selected);
+    }
+  }
 
-    for (const file of files) {
-      progress.current = file.basename;
+  /**
+   * Apply the "skip named notes" and "skip recently titled" settings
+   */
+  private filterBulkCandidates(files: TFile[]): TFile[] {
+    let defaultName: RegExp | null = null;
+    if (this.settings.skipNamedNotes) {
       try {
-        await this.generateTitleForFile(file);
-        progress.succeeded++;
-        this.logger.debug(`Successfully generated title for ${file.path}`);
+        defaultName = new RegExp(this.settings.autoTitlePattern);
       } catch (error) {
-        progress.failed++;
-        errors.push(error as Error);
-        this.logger.error(`Failed to generate title for ${file.path}`, error);
-      } finally {
-        progress.processed++;
-        updateStatus();
+        this.logger.warn(`Invalid filename pattern, not skipping named notes: ${this.settings.autoTitlePattern}`, error);
+      }
+    }
+
+    const recentDays = this.settings.skipRecentlyTitledDays;
+    const titledAfter = Date.now() - recentDays * 24 * 60 * 60 * 1000;
+
+    return files.filter((file) => {
+      if (defaultName && !defaultName.test(file.basename)) {
+        return false;
+      }
+      if (recentDays > 0) {
+        const lastTitled = this.renameJournal.getLastTitledAt(file.path);
+        if (lastTitled !== null && lastTitled >= titledAfter) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Generate and apply a title for one file of a batch run. Failures are
+   * thrown rather than shown, so they end up in the batch report.
+   * @param signal Aborted when the batch is cancelled
+   */
+  private async processBatchFile(file: TFile, batchId: string, signal: AbortSignal): Promise<BatchItemResult> {
+    const result: BatchItemResult = { path: file.path, name: file.basename, status: 'succeeded' };
+
+    const content = await this.app.vault.cachedRead(file);
+    if (!content.trim()) {
+      return { ...result, status: 'skipped', reason: 'Note is empty' };
+    }
+
+    // Batch runs never stop for the chooser modal
+    const requestOptions: TitleRequestOptions = { ...this.getTitleRequestOptions(file), signal };
+    const { title, ...source } = await this.aiService.requestTitle(
+      this.validationService.sanitizeInput(content),
+      requestOptions
+    );
+    if (!title) {
+      throw this.errorHandler.createGenerationError(
+        'Title generation returned empty result',
+        source.provider
+      );
+    }
+
+    this.events.emit('title-generated', { path: file.path, title, source });
+
+    const operation = await this.applyTitle(file, title, content, { batchId, source, requestOptions });
+    if (!operation.success) {
+      throw new Error(operation.error || ERROR_MESSAGES.RENAME_FAILED);
+    }
+
+    if (operation.skipped) {
+      return { ...result, status: 'skipped', reason: operation.skipped };
+    }
+    result.newPath = operation.newPath;
+    result.source = source;
+    if (operation.newPath === operation.originalPath && operation.removedContent === undefined) {
+      return { ...result, status: 'skipped', reason: 'Generated title is the same as the current one' };
+    }
+    return result;
+  }
+
+  /**
+   * Run one batch item and record its result. Thrown errors are recorded as
+   * failures and rethrown so the queue counts them; items stopped by a cancel
+   * count as skipped.
+   */
+  private async trackBatchItem(
+    results: BatchItemResult[],
+    filePath: string,
+    name: string,
+    task: () => Promise<BatchItemResult>
+  ): Promise<BatchItemResult> {
+    try {
+      const result = await task();
+      results.push(result);
+      return result;
+    } catch (error) {
+      if (error instanceof TitleGeneratorError && error.code === 'CANCELLED') {
+        const result: BatchItemResult = { path: filePath, name, status: 'skipped', reason: error.message };
+        results.push(result);
+        return result;
       }
+      results.push({ path: filePath, name, status: 'failed', reason: (error as Error)?.message ?? String(error) });
+      throw error;
     }
+  }
 
+  /**
+   * Report the outcome of a batch run: summarize errors, write the report
+   * note and offer to retry the failed files
+   */
+  private async finishBatch(
+    label: string,
+    progress: BatchOperationProgress,
+    results: BatchItemResult[],
+    errors: Error[],
+    retry: (failed: BatchItemResult[]) => Promise<void>
+  ): Promise<void> {
     if (errors.length > 0) {
-      this.errorHandler.handleMultipleErrors(errors, { context: 'batch-generation' });
+      this.errorHandler.handleMultipleErrors(errors, { context: label });
+    }
+
+    const failed = results.filter((result) => result.status === 'failed');
+    this.retryFailedBatch = failed.length > 0 ? () => retry(failed) : null;
+
+    let reportFile: TFile | null = null;
+    if (this.settings.writeBatchReport) {
+      try {
+        reportFile = await this.writeBatchReport(label, progress, results);
+      } catch (error) {
+        this.errorHandler.handleError(error as Error, { context: 'batch-report' });
+      }
+    }
+
+    this.showBatchSummary(label, progress, reportFile);
+    this.logger.info(`${label} ${progress.status}`, progress);
+  }
+
+  /**
+   * Create the summary report note for a batch run
+   */
+  private async writeBatchReport(
+    label: string,
+    progress: BatchOperationProgress,
+    results: BatchItemResult[]
+  ): Promise<TFile> {
+    const now = moment();
+    const folder = normalizePath(this.settings.batchReportFolder || '/');
+    if (folder !== '/' && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+
+    const baseName = `${label} report ${now.format('YYYY-MM-DD HH-mm-ss')}`;
+    const prefix = folder === '/' ? '' : `${folder}/`;
+    let reportPath = normalizePath(`${prefix}${baseName}.md`);
+    let counter = 1;
+    while (this.app.vault.getAbstractFileByPath(reportPath)) {
+      reportPath = normalizePath(`${prefix}${baseName} (${counter}).md`);
+      counter++;
+    }
+
+    const body = buildBatchReport(label, progress, results, now.format('YYYY-MM-DD HH:mm:ss'));
+    return this.app.vault.create(reportPath, body);
+  }
+
+  /**
+   * Show the batch counts with buttons to open the report and retry failures
+   */
+  private showBatchSummary(
+    label: string,
+    progress: BatchOperationProgress,
+    reportFile: TFile | null
+  ): void {
+    const fragment = document.createDocumentFragment();
+    fragment.createDiv({
+      text: `${label} ${progress.status === 'cancelled' ? 'cancelled' : 'complete'}: ${progress.succeeded} succeeded, ${progress.skipped} skipped, ${progress.failed} failed.`,
+    });
+
+    const actions = fragment.createDiv({ cls: UI_CONFIG.CSS_CLASSES.CHOOSER_BUTTONS });
+    if (reportFile) {
+      actions.createEl('button', { text: 'Open report' }).addEventListener('click', () => {
+        this.app.workspace.getLeaf(true).openFile(reportFile);
+      });
     }
+    if (this.retryFailedBatch) {
+      actions.createEl('button', { text: 'Retry failed', cls: 'mod-cta' }).addEventListener('click', () => {
+        this.retryLastFailedBatch();
+      });
+    }
+
+    new Notice(
+      fragment,
+      actions.childElementCount > 0 ? 0 : UI_CONFIG.NOTIFICATION_DURATION.MEDIUM
+    );
+  }
+
+  private async retryLastFailedBatch(): Promise<void> {
+    const retry = this.retryFailedBatch;
+    if (!retry) {
+      new Notice('No failed notes to retry.');
+      return;
+    }
+
+    this.retryFailedBatch = null;
+    try {
+      await retry();
+    } catch (error) {
+      this.errorHandler.handleError(error as Error, { context: 'retry-failed-batch' });
+    }
+  }
 
-    statusBarItem.setText(`Title generation complete: ${progress.succeeded} succeeded, ${progress.failed} failed`);
+  /**
+   * Run a batch through the job queue, showing progress and pause/resume and
+   * cancel controls in a status bar item
+   */
+  private async runBatch<T>(
+    label: string,
+    items: T[],
+    worker: (item: T, signal: AbortSignal) => Promise<BatchItemStatus | void>,
+    describe: (item: T) => string,
+    concurrency = this.settings.batchConcurrency
+  ): Promise<{ progress: BatchOperationProgress; errors: Error[] }> {
+    const statusBarItem = this.addStatusBarItem();
+    const textEl = statusBarItem.createSpan();
+    const pauseEl = statusBarItem.createSpan({ cls: UI_CONFIG.CSS_CLASSES.BATCH_STATUS_BUTTON });
+    const cancelEl = statusBarItem.createSpan({ cls: UI_CONFIG.CSS_CLASSES.BATCH_STATUS_BUTTON });
+
+    const queue = new BatchQueue<T>(concurrency, (progress) => {
+      const suffixes: Partial<Record<BatchOperationStatus, string>> = { paused: ' (paused)', cancelled: ' (cancelling)' };
+      const suffix = (progress.status && suffixes[progress.status]) ?? '';
+      textEl.setText(
+        `${label}: ${progress.processed}/${progress.total} (${progress.succeeded} succeeded, ${progress.skipped} skipped, ${progress.failed} failed)${suffix}`
+      );
+      setIcon(pauseEl, progress.status === 'paused' ? 'play' : 'pause');
+      pauseEl.setAttr('aria-label', progress.status === 'paused' ? 'Resume' : 'Pause');
+    });
+
+    setIcon(cancelEl, 'x');
+    cancelEl.setAttr('aria-label', 'Cancel');
+    pauseEl.addEventListener('click', () => (queue.status === 'paused' ? queue.resume() : queue.pause()));
+    cancelEl.addEventListener('click', () => queue.cancel());
+
+    this.events.emit('batch-started', { label, total: items.length });
+    const progress = await queue.run(items, worker, describe);
+    this.events.emit('batch-completed', { label, progress });
+
+    pauseEl.remove();
+    cancelEl.remove();
+    textEl.setText(
+      progress.status === 'cancelled'
+        ? `${label} cancelled: ${progress.processed}/${progress.total} processed (${progress.succeeded} succeeded, ${progress.skipped} skipped, ${progress.failed} failed)`
+        : `${label} complete: ${progress.succeeded} succeeded, ${progress.skipped} skipped, ${progress.failed} failed`
+    );
     setTimeout(() => statusBarItem.remove(), UI_CONFIG.NOTIFICATION_DURATION.MEDIUM);
-    
-    this.logger.info(`Batch title generation completed`, progress);
+
+    return { progress, errors: queue.errors };
+  }
+
+  /**
+   * Generate titles for all files without renaming, let the user review them
+   * in a table, then rename only the approved rows.
+   */
+  private async previewTitlesForMultipleFiles(files: TFile[]): Promise<void> {
+    this.logger.info(`Generating title previews for ${files.length} files`);
+    const items: BatchRenameItem[] = new Array(files.length);
+    const results: BatchItemResult[] = [];
+
+    const { progress, errors } = await this.runBatch(
+      'Generating title previews',
+      files.map((file, index) => ({ file, index })),
+      async ({ file, index }, signal) => {
+        items[index] = { path: file.path, originalName: file.basename, proposedName: '', approved: false };
+        const result = await this.trackBatchItem(results, file.path, file.basename, () =>
+          this.proposeTitle(file, items[index], signal)
+        );
+        return result.status;
+      },
+      ({ file }) => file.basename
+    );
+
+    await this.finishBatch('Title preview', progress, results, errors, (failed) => {
+      const retryFiles = failed
+        .map((result) => this.app.vault.getAbstractFileByPath(result.path))
+        .filter((file): file is TFile => file instanceof TFile);
+      return this.previewTitlesForMultipleFiles(retryFiles);
+    });
+
+    if (progress.status === 'cancelled') {
+      new Notice('Batch cancelled. No notes were renamed.');
+      this.logger.info('Batch title preview cancelled');
+      return;
+    }
+
+    const approved = await BatchPreviewModal.review(this.app, items);
+    if (!approved) {
+      new Notice('Batch rename cancelled. No notes were renamed.');
+      this.logger.info('Batch title preview cancelled');
+      return;
+    }
+
+    await this.applyApprovedRenames(approved);
+  }
+
+  /**
+   * Generate a title for a file without touching it and fill in its preview
+   * row. Failures are noted on the row and thrown, so they end up in the batch
+   * report.
+   * @param signal Aborted when the batch is cancelled
+   */
+  private async proposeTitle(file: TFile, item: BatchRenameItem, signal: AbortSignal): Promise<BatchItemResult> {
+    const result: BatchItemResult = { path: file.path, name: file.basename, status: 'succeeded' };
+
+    try {
+      const content = await this.app.vault.cachedRead(file);
+      if (!content.trim()) {
+        item.error = 'Note is empty';
+        return { ...result, status: 'skipped', reason: item.error };
+      }
+
+      // Like batch renames, previews never stop for the chooser modal
+      const requestOptions: TitleRequestOptions = { ...this.getTitleRequestOptions(file), signal };
+      const { title, ...source } = await this.aiService.requestTitle(
+        this.validationService.sanitizeInput(content),
+        requestOptions
+      );
+      if (!title) {
+        throw this.errorHandler.createGenerationError('Title generation returned empty result', source.provider);
+      }
+
+      this.events.emit('title-generated', { path: file.path, title, source });
+      item.source = source;
+      item.title = title;
+      item.proposedName = this.validationService.sanitizeFilename(this.aiService.formatFileName(title, requestOptions));
+      item.approved = item.proposedName !== file.basename;
+    } catch (error) {
+      item.error = (error as Error)?.message ?? String(error);
+      this.logger.error(`Failed to generate title preview for ${file.path}`, error);
+      throw error;
+    }
+
+    result.source = item.source;
+    if (!item.approved) {
+      return { ...result, status: 'skipped', reason: 'Generated title is the same as the current one' };
+    }
+    return result;
+  }
+
+  /**
+   * Rename the files approved in the batch preview
+   */
+  private async applyApprovedRenames(items: BatchRenameItem[]): Promise<void> {
+    const batchId = RenameJournal.createBatchId();
+    const results: BatchItemResult[] = [];
+
+    const { progress, errors } = await this.runBatch(
+      'Renaming notes',
+      items,
+      async (item) => {
+        const result = await this.trackBatchItem(results, item.path, item.originalName, async () => {
+          const file = this.app.vault.getAbstractFileByPath(item.path);
+          if (!(file instanceof TFile)) {
+            throw new Error(`File not found: ${item.path}`);
+          }
+          const content = await this.app.vault.cachedRead(file);
+          const operation = await this.applyTitle(file, item.title || item.proposedName, content, {
+            batchId,
+            source: item.source,
+            fileName: item.proposedName,
+          });
+          if (!operation.success) {
+            throw new Error(operation.error || ERROR_MESSAGES.RENAME_FAILED);
+          }
+          if (operation.skipped) {
+            return { path: item.path, name: item.originalName, status: 'skipped', reason: operation.skipped };
+          }
+          return {
+            path: item.path,
+            name: item.originalName,
+            status: 'succeeded',
+            newPath: operation.newPath,
+            source: item.source,
+          };
+        });
+        return result.status;
+      },
+      (item) => item.originalName
+    );
+
+    await this.finishBatch('Batch rename', progress, results, errors, (failed) => {
+      const failedPaths = new Set(failed.map((result) => result.path));
+      return this.applyApprovedRenames(items.filter((item) => failedPaths.has(item.path)));
+    });
   }
 
-  private async processSingleFile(file: TFile, content: string): Promise<FileOperationResult> {
+  private async processSingleFile(
+    file: TFile,
+    content: string,
+    options: TitleProcessingOptions = {}
+  ): Promise<FileOperationResult> {
     if (!content.trim()) {
       const error = this.errorHandler.createGenerationError('Note is empty. Cannot generate title.');
       this.errorHandler.handleError(error);
       return { success: false, originalPath: file.path, error: error.message };
     }
 
+    const controller = new AbortController();
+    this.activeGenerations.add(controller);
     const statusBarItem = this.addStatusBarItem();
-    statusBarItem.setText('Generating title...');
+    const textEl = statusBarItem.createSpan({ text: 'Generating title...' });
+    const stopEl = statusBarItem.createSpan({ cls: UI_CONFIG.CSS_CLASSES.BATCH_STATUS_BUTTON });
+    setIcon(stopEl, 'square');
+    stopEl.setAttr('aria-label', 'Stop');
+    stopEl.addEventListener('click', () => controller.abort());
 
     try {
       // Validate content before processing
       const sanitizedContent = this.validationService.sanitizeInput(content);
       
       this.logger.debug(`Generating title for file: ${file.path}`);
-      const newTitle = await this.aiService.generateTitle(sanitizedContent);
+      const chooseTitle = options.chooseTitle ?? this.settings.suggestMultipleTitles;
+      const requestOptions: TitleRequestOptions = {
+        ...this.getTitleRequestOptions(file, options.profile),
+        signal: controller.signal,
+        onPartialTitle: (partialTitle) =>
+          textEl.setText(partialTitle ? `Generating title: ${partialTitle}` : 'Generating title...'),
+      };
+      if (requestOptions.profile) {
+        this.logger.debug(`Using profile "${requestOptions.profile.name}" for ${file.path}`);
+      }
+      // Titles picked in the chooser may be edited, so they have no source
+      let newTitle: string | null;
+      let source: TitleSource | undefined;
+      if (chooseTitle) {
+        newTitle = await this.chooseTitle(file, sanitizedContent, textEl, requestOptions);
+      } else {
+        const generated = await this.aiService.generateTitle(sanitizedContent, requestOptions);
+        newTitle = generated?.title ?? '';
+        source = generated ? { provider: generated.provider, model: generated.model } : undefined;
+      }
+
+      if (controller.signal.aborted) {
+        new Notice(ERROR_MESSAGES.CANCELLED);
+        return { success: false, originalPath: file.path, error: 'Cancelled by user' };
+      }
+
+      if (newTitle === null) {
+        this.logger.debug(`Title selection cancelled for ${file.path}`);
+        return { success: false, originalPath: file.path, error: 'Cancelled by user' };
+      }
 
       if (newTitle) {
-        // Sanitize the generated title
-        const sanitizedTitle = this.validationService.sanitizeFilename(newTitle);
-        
-        // Check for duplicate titles in content if enabled
-        let finalContent = content;
-        if (this.settings.enableDuplicateRemoval) {
-          const duplicateResult = await this.handleDuplicateTitles(file, sanitizedTitle, content);
-          if (duplicateResult.contentModified) {
-            finalContent = duplicateResult.modifiedContent;
+        this.events.emit('title-generated', { path: file.path, title: newTitle, source });
+        return await this.applyTitle(file, newTitle, content, {
+          source,
+          automatic: options.automatic,
+          requestOptions,
+        });
+      }
+      const error = this.errorHandler.createGenerationError('Title generation returned empty result');
+      this.errorHandler.handleError(error);
+      return { success: false, originalPath: file.path, error: error.message };
+    } catch (error) {
+      this.errorHandler.handleError(error as Error, { context: 'process-single-file', file: file.path });
+      return { success: false, originalPath: file.path, error: (error as Error).message };
+    } finally {
+      this.activeGenerations.delete(controller);
+      statusBarItem.remove();
+    }
+  }
+
+  /**
+   * Apply a title to a file using the enabled output targets (rename,
+   * frontmatter property, first heading), removing duplicate title content
+   * first if enabled. Only the filename gets the title template.
+   */
+  private async applyTitle(
+    file: TFile,
+    title: string,
+    content: string,
+    options: ApplyTitleOptions = {}
+  ): Promise<FileOperationResult> {
+    // Concurrent batch workers must not pick the same free filename
+    return this.fileOperations.run(() => this.applyTitleNow(file, title, content, options));
+  }
+
+  private async applyTitleNow(
+    file: TFile,
+    title: string,
+    content: string,
+    options: ApplyTitleOptions
+  ): Promise<FileOperationResult> {
+    const { batchId, source, automatic = false } = options;
+    const { renameFile, writeFrontmatterTitle, updateFirstHeading } = this.settings;
+    if (!renameFile && !writeFrontmatterTitle && !updateFirstHeading) {
+      throw this.errorHandler.createConfigurationError(
+        'No title output target is enabled. Enable renaming, frontmatter or heading output in settings.'
+      );
+    }
+
+    // Only the filename gets the template and needs forbidden characters removed
+    const fileName = this.validationService.sanitizeFilename(
+      options.fileName ??
+        this.aiService.formatFileName(title, options.requestOptions ?? this.getTitleRequestOptions(file))
+    );
+    // Titles are styled when generated; hand-edited titles are kept as typed
+    const displayTitle = title.trim();
+
+    // Check for duplicate titles in content if enabled
+    let withoutDuplicates: string | undefined;
+    if (this.settings.enableDuplicateRemoval) {
+      const duplicateResult = await this.handleDuplicateTitles(file, displayTitle, content, batchId, automatic);
+      if (duplicateResult.needsConfirmation && batchId) {
+        // Leave the note as it is, so it can be titled on its own later
+        return {
+          success: true,
+          originalPath: file.path,
+          newPath: file.path,
+          skipped: 'Removing the duplicate title needs confirmation. Generate a title for this note on its own.',
+        };
+      }
+      if (duplicateResult.contentModified) {
+        withoutDuplicates = duplicateResult.modifiedContent;
+      }
+    }
+
+    // The auto-title watcher runs on notes that may still be typed in
+    if (automatic && (await this.app.vault.read(file)) !== content) {
+      this.logger.info(`Automatic title skipped for ${file.path}: the note changed during generation`);
+      return {
+        success: true,
+        originalPath: file.path,
+        newPath: file.path,
+        skipped: 'The note changed while the title was generated.',
+      };
+    }
+
+    const originalPath = file.path;
+    let candidatePath = file.path;
+
+    if (renameFile) {
+      const { dir, ext } = path.parse(file.path);
+      candidatePath = normalizePath(`${dir}/${fileName}${ext}`);
+      let counter = 1;
+
+      while (candidatePath !== file.path && this.app.vault.getAbstractFileByPath(candidatePath)) {
+        candidatePath = normalizePath(`${dir}/${fileName} (${counter})${ext}`);
+        counter++;
+      }
+
+      if (candidatePath !== file.path) {
+        await this.app.fileManager.renameFile(file, candidatePath);
+        this.logger.info(`File renamed: ${originalPath} → ${candidatePath}`);
+        this.events.emit('file-renamed', { oldPath: originalPath, newPath: candidatePath, title: fileName });
+      }
+    }
+
+    // Edit the note as it is now, so text typed while the title was generated
+    // is kept. The history diff starts from that same text.
+    let currentContent = content;
+    if (withoutDuplicates !== undefined || updateFirstHeading) {
+      await this.app.vault.process(file, (current) => {
+        currentContent = current;
+        let updated = current;
+        if (withoutDuplicates !== undefined) {
+          if (current === content) {
+            updated = withoutDuplicates;
+          } else {
+            this.logger.info(`Keeping duplicate title in ${originalPath}: the note changed during generation`);
           }
         }
-        
-        const { dir, ext } = path.parse(file.path);
-        let candidatePath = normalizePath(`${dir}/${sanitizedTitle}${ext}`);
-        let counter = 1;
-        
-        while (this.app.vault.getAbstractFileByPath(candidatePath)) {
-          candidatePath = normalizePath(`${dir}/${sanitizedTitle} (${counter})${ext}`);
-          counter++;
-        }
+        return updateFirstHeading ? setFirstHeading(updated, displayTitle) : updated;
+      });
+    } else {
+      currentContent = await this.app.vault.read(file);
+    }
 
-        if (candidatePath !== file.path) {
-          await this.app.fileManager.renameFile(file, candidatePath);
-          
-          // Update content if it was modified
-          if (finalContent !== content) {
-            await this.app.vault.modify(this.app.vault.getAbstractFileByPath(candidatePath) as TFile, finalContent);
-          }
-          
-          new Notice(`Title generated: "${sanitizedTitle}"`);
-          this.logger.info(`File renamed: ${file.path} → ${candidatePath}`);
-          return { success: true, originalPath: file.path, newPath: candidatePath };
-        } else {
-          // Update content even if filename didn't change
-          if (finalContent !== content) {
-            await this.app.vault.modify(file, finalContent);
-          }
-          
-          new Notice(`Generated title is the same as the current one.`);
-          this.logger.debug(`No rename needed for ${file.path}: title unchanged`);
-          return { success: true, originalPath: file.path, newPath: file.path };
+    if (writeFrontmatterTitle) {
+      await this.writeFrontmatterTitle(file, displayTitle);
+    }
+
+    const result: FileOperationResult = { success: true, originalPath, newPath: candidatePath, source };
+    const updatedContent = await this.app.vault.read(file);
+    if (updatedContent !== currentContent) {
+      const { removed, replacement } = diffLeadingContent(currentContent, updatedContent);
+      result.removedContent = removed;
+      result.replacementContent = replacement;
+    }
+
+    if (candidatePath === originalPath && result.removedContent === undefined) {
+      new Notice(`Generated title is the same as the current one.`);
+      this.logger.debug(`No changes needed for ${originalPath}: title unchanged`);
+    } else {
+      new Notice(`Title generated: "${renameFile ? fileName : displayTitle}"`);
+    }
+
+    await this.renameJournal.record(result, batchId);
+    return result;
+  }
+
+  /**
+   * Store the title in the configured frontmatter property.
+   * List properties (e.g. aliases) get the title appended instead of replaced.
+   */
+  private async writeFrontmatterTitle(file: TFile, title: string): Promise<void> {
+    const key = this.settings.frontmatterTitleKey.trim() || DEFAULT_SETTINGS.frontmatterTitleKey;
+
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      const existing = frontmatter[key];
+      if (Array.isArray(existing) || key === 'aliases') {
+        let values: unknown[] = [];
+        if (Array.isArray(existing)) {
+          values = existing;
+        } else if (existing) {
+          values = [existing];
         }
+        if (!values.includes(title)) {
+          values.push(title);
+        }
+        frontmatter[key] = values;
       } else {
-        const error = this.errorHandler.createGenerationError('Title generation returned empty result');
-        this.errorHandler.handleError(error);
-        return { success: false, originalPath: file.path, error: error.message };
+        frontmatter[key] = title;
+      }
+    });
+    this.logger.debug(`Frontmatter "${key}" set for ${file.path}`);
+  }
+
+  private async undoLastRename(): Promise<void> {
+    try {
+      const entry = await this.renameJournal.undoLast();
+      if (!entry) {
+        new Notice('Nothing to undo.');
+        return;
       }
+      new Notice(`Restored "${entry.originalPath}"`);
     } catch (error) {
-      this.errorHandler.handleError(error as Error, { context: 'process-single-file', file: file.path });
-      return { success: false, originalPath: file.path, error: (error as Error).message };
-    } finally {
-      statusBarItem.remove();
+      this.errorHandler.handleError(error as Error, { context: 'undo-last-rename' });
+    }
+  }
+
+  private async undoLastBatch(): Promise<void> {
+    try {
+      const count = await this.renameJournal.undoLastBatch();
+      new Notice(count > 0 ? `Undid ${count} renames from the last batch.` : 'No batch to undo.');
+    } catch (error) {
+      this.errorHandler.handleError(error as Error, { context: 'undo-last-batch' });
+    }
+  }
+
+  /**
+   * Reveal a side pane of the plugin, opening it in the right sidebar if needed
+   */
+  async showView(viewType: string): Promise<void> {
+    const existing = this.app.workspace.getLeavesOfType(viewType);
+    if (existing.length > 0) {
+      this.app.workspace.revealLeaf(existing[0]);
+      return;
+    }
+
+    const leaf = this.app.workspace.getRightLeaf(false);
+    if (leaf) {
+      await leaf.setViewState({ type: viewType, active: true });
+      this.app.workspace.revealLeaf(leaf);
+    }
+  }
+
+  /**
+   * Back end of {@link TitleGeneratorApi.generateTitle}. Unlike the commands,
+   * failures are thrown to the caller instead of being shown.
+   */
+  private async generateTitleForApi(file: TFile, options: ApiTitleOptions = {}): Promise<TitleResult> {
+    let profile: PromptProfile | undefined;
+    if (options.profile) {
+      profile = this.settings.profiles.find(
+        (candidate) => candidate.id === options.profile || candidate.name === options.profile
+      );
+      if (!profile) {
+        throw this.errorHandler.createConfigurationError(`Profile not found: ${options.profile}`);
+      }
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    if (!content.trim()) {
+      throw this.errorHandler.createGenerationError('Note is empty. Cannot generate title.');
+    }
+
+    const requestOptions = this.getTitleRequestOptions(file, profile);
+    const result = await this.aiService.requestTitle(this.validationService.sanitizeInput(content), requestOptions);
+    const { title, ...source } = result;
+    if (!title) {
+      throw this.errorHandler.createGenerationError('Title generation returned empty result', source.provider);
+    }
+    this.events.emit('title-generated', { path: file.path, title, source });
+
+    if (options.apply ?? true) {
+      // Scripts cannot answer the removal confirmation, so no modal is opened
+      const operation = await this.applyTitle(file, title, content, { source, automatic: true, requestOptions });
+      if (!operation.success) {
+        throw new Error(operation.error || ERROR_MESSAGES.RENAME_FAILED);
+      }
+      if (operation.skipped) {
+        throw new Error(operation.skipped);
+      }
     }
+    return result;
   }
 
+  /**
+   * Template context and profile for a note. An explicit profile wins over
+   * the profile rules.
+   */
+  private getTitleRequestOptions(file: TFile, profile?: PromptProfile): TitleRequestOptions {
+    return {
+      context: createPromptContext(this.app, file, this.settings),
+      profile: profile ?? resolveProfile(this.app, file, this.settings),
+    };
+  }
+
+  /**
+   * Generate several candidates and let the user pick or edit one.
+   * Resolves with null when the chooser is cancelled.
+   */
+  private async chooseTitle(
+    file: TFile,
+    content: string,
+    statusEl: HTMLElement,
+    requestOptions: TitleRequestOptions
+  ): Promise<string | null> {
+    const generate = () =>
+      this.aiService.generateTitleCandidates(content, this.settings.titleCandidateCount, requestOptions);
+
+    const candidates = await generate();
+    statusEl.setText('Waiting for title choice...');
+    return TitleChooserModal.choose(this.app, file.basename, candidates, generate);
+  }
+
+  /**
+   * Find lines repeating the title and remove them, asking first if
+   * confirmation is on. Batch and automatic runs never open the modal: they
+   * keep the lines and report that confirmation is needed.
+   */
   private async handleDuplicateTitles(
     file: TFile, 
     generatedTitle: string, 
-    content: string
-  ): Promise<{ contentModified: boolean; modifiedContent: string }> {
+    content: string,
+    batchId?: string,
+    automatic = false
+  ): Promise<{ contentModified: boolean; modifiedContent: string; needsConfirmation?: boolean }> {
+    const unchanged = { contentModified: false, modifiedContent: content };
     try {
-      // Use AI-based detection for title duplicates
-      const aiDetectionResult = await this.detectDuplicateWithAI(generatedTitle, content);
-      if (aiDetectionResult.contentModified) {
-        this.logger.info(`AI detected and removed duplicate title content from ${file.path}`);
-        new Notice('Removed duplicate title from note content (AI detection)');
-        return aiDetectionResult;
+      const result = await detectDuplicateTitle(generatedTitle, content, {
+        sensitivity: this.settings.duplicateDetectionSensitivity,
+        exactOnly: this.settings.removeOnlyExactMatches,
+        tieBreaker: this.settings.useAIDuplicateTieBreaker
+          ? (title, text) =>
+              confirmDuplicateWithAI(title, text, (prompt, aiContent) => this.aiService.makeAICall(prompt, aiContent))
+          : undefined,
+      });
+      if (!result.found) {
+        this.logger.debug(`No duplicate title content found in ${file.path}`);
+        return unchanged;
+      }
+
+      const options = this.getContentModificationOptions();
+      const matches = options.removeAllMatches ? result.matches : result.matches.slice(0, 1);
+      const modifiedContent = removeMatches(content, matches, options.preserveFormatting);
+      if (modifiedContent === undefined) {
+        this.logger.debug(`Keeping duplicate title in ${file.path}: the note would be left empty`);
+        return unchanged;
+      }
+
+      if (options.confirmBeforeRemoval) {
+        if (batchId || automatic) {
+          this.logger.info(`Keeping duplicate title in ${file.path}: removal needs confirmation`);
+          return { ...unchanged, needsConfirmation: true };
+        }
+        const lines = content.split('\n');
+        const choice = await DuplicateRemovalModal.confirm(
+          this.app,
+          file.basename,
+          lines,
+          getRemovedLines(lines, matches, options.preserveFormatting)
+        );
+        if (choice === 'skip') {
+          return unchanged;
+        }
+        if (choice === 'always') {
+          this.settings.autoRemoveDuplicates = true;
+          await this.saveSettings();
+          new Notice('Duplicate titles will be removed without asking. You can change this in settings.');
+        }
       }
 
-      // No duplicate title content found
-      this.logger.debug(`No duplicate title content found in ${file.path}`);
-      return { contentModified: false, modifiedContent: content };
+      this.logger.info(
+        `Removed ${matches.length} duplicate title line(s) from ${file.path}`,
+        matches.map((match) => `line ${match.lineNumber}: ${Math.round(match.similarity * 100)}%`)
+      );
+      new Notice('Removed duplicate title from note content');
+      return { contentModified: true, modifiedContent };
     } catch (error) {
       this.errorHandler.handleError(error as Error, { context: 'handle-duplicate-titles', file: file.path });
-      return { contentModified: false, modifiedContent: content };
+      return unchanged;
     }
   }
 
-  private async detectDuplicateWithAI(
-    title: string, 
-    content: string
-  ): Promise<{ contentModified: boolean; modifiedContent: string }> {
-    try {
-      // Create a bound function for AI calls
-      const aiCallFunction = async (prompt: string, content: string): Promise<string> => {
-        return await this.aiService.makeAICall(prompt, content);
-      };
-
-      // Use the AI-based duplicate detection
-      const result = await detectAndRemoveDuplicateWithAI(title, content, aiCallFunction);
-      return result;
-    } catch (error) {
-      this.logger.debug('AI duplicate detection failed, falling back to traditional method:', error);
-      return { contentModified: false, modifiedContent: content };
-    }
+  /**
+   * How duplicate title lines are removed. Confirmation is skipped when
+   * auto-removal is on.
+   */
+  private getContentModificationOptions(): ContentModificationOptions {
+    return {
+      removeAllMatches: true,
+      preserveFormatting: false,
+      confirmBeforeRemoval: !this.settings.autoRemoveDuplicates && this.settings.confirmBeforeRemoval,
+    };
   }
 
 }
@@ -1,4 +1,11 @@
-import { Notice, requestUrl } from 'obsidian';
+import { Notice } from 'obsidian';
+
+import { redactSecrets } from './apiKeys';
+import { TitleGeneratorError } from './errorHandler';
+import { getEventBus } from './eventBus';
+import { sendApiRequest } from './httpClient';
+import { getLogger } from './logger';
+import { getProviderAdapter, getProviderApiKey } from './providers';
 import type { AIProvider, TitleGeneratorSettings, CachedModels } from './types';
 
 /**
@@ -42,10 +49,11 @@ export class ModelService {
     try {
       const models = await this.queryModels(provider, config);
       await this.cacheModels(provider, models);
+      getEventBus().emit('model-loaded', { provider, models });
       return models;
     } catch (error) {
-      console.error(`Failed to refresh models for ${provider}:`, error);
-      const errorMessage = this.getErrorMessage(error);
+      getLogger().error(`Failed to refresh models for ${provider}`, error);
+      const errorMessage = redactSecrets(this.getErrorMessage(error));
       await this.cacheError(provider, errorMessage);
       new Notice(
         `Failed to load models for ${provider}: ${errorMessage}`,
@@ -60,128 +68,34 @@ export class ModelService {
   }
 
   /**
-   * Query models from API for specific provider
+   * Query models from API for specific provider without caching them.
+   * Failures are thrown, so this also checks that the API key is accepted.
    */
-  private async queryModels(
+  async queryModels(
     provider: AIProvider,
     config?: Partial<TitleGeneratorSettings>
   ): Promise<string[]> {
     // Use provided config first, then fall back to stored settings
     const settings = { ...this.getSettings(), ...config };
 
-    switch (provider) {
-      case 'openai':
-        return this.queryOpenAIModels(settings);
-      case 'anthropic':
-        return this.queryAnthropicModels(settings);
-      case 'google':
-        return this.queryGoogleModels(settings);
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
-  }
+    const adapter = getProviderAdapter(provider);
 
-  private async queryOpenAIModels(
-    settings: TitleGeneratorSettings
-  ): Promise<string[]> {
-    if (!settings.openAiApiKey.trim()) {
-      throw new Error('OpenAI API key not set');
+    if (adapter.requiresApiKey && !getProviderApiKey(settings, provider)) {
+      throw new Error(`${adapter.name} API key not set`);
     }
 
-    const response = await requestUrl({
-      url: 'https://api.openai.com/v1/models',
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${settings.openAiApiKey}`,
-      },
-    });
-
-    if (response.status !== 200) {
-      throw new Error(
-        `OpenAI API error (${response.status}): ${response.text}`
-      );
+    if (!adapter.capabilities.modelListing) {
+      return [...adapter.defaultModels];
     }
 
-    const data = response.json;
+    const response = await sendApiRequest(
+      adapter.buildModelsRequest(settings),
+      provider
+    );
 
-    if (!data.data || !Array.isArray(data.data)) {
-      throw new Error('Invalid response format from OpenAI API');
-    }
-
-    return data.data
-      .filter((model: any) => model.id && model.id.includes('gpt'))
-      .map((model: any) => model.id)
-      .sort();
+    return adapter.parseModelsResponse(response.json);
   }
 
-  private async queryAnthropicModels(
-    settings: TitleGeneratorSettings
-  ): Promise<string[]> {
-    if (!settings.anthropicApiKey.trim()) {
-      throw new Error('Anthropic API key not set');
-    }
-
-    const response = await requestUrl({
-      url: 'https://api.anthropic.com/v1/models',
-      method: 'GET',
-      headers: {
-        'x-api-key': settings.anthropicApiKey,
-        'anthropic-version': '2023-06-01',
-      },
-    });
-
-    if (response.status !== 200) {
-      throw new Error(
-        `Anthropic API error (${response.status}): ${response.text}`
-      );
-    }
-
-    const data = response.json;
-
-    if (!data.data || !Array.isArray(data.data)) {
-      throw new Error('Invalid response format from Anthropic API');
-    }
-
-    return data.data
-      .map((model: any) => model.id)
-      .sort();
-  }
-
-  private async queryGoogleModels(
-    settings: TitleGeneratorSettings
-  ): Promise<string[]> {
-    if (!settings.googleApiKey.trim()) {
-      throw new Error('Google API key not set');
-    }
-
-    const response = await requestUrl({
-      url: `https://generativelanguage.googleapis.com/v1beta/models?key=${settings.googleApiKey}`,
-      method: 'GET',
-    });
-
-    if (response.status !== 200) {
-      throw new Error(
-        `Google API error (${response.status}): ${response.text}`
-      );
-    }
-
-    const data = response.json;
-
-    if (!data.models || !Array.isArray(data.models)) {
-      throw new Error('Invalid response format from Google API');
-    }
-
-    return data.models
-      .filter((model: any) =>
-        model.supportedGenerationMethods?.includes('generateContent')
-      )
-      .map((model: any) => model.name.replace('models/', ''))
-      .sort();
-  }
-
-  
-
-
   private async cacheModels(
     provider: AIProvider,
     models: string[]
@@ -226,6 +140,10 @@ export class ModelService {
       return error;
     }
 
+    if (error instanceof TitleGeneratorError && error.code !== 'API_ERROR') {
+      return error.userMessage;
+    }
+
     if (error?.message) {
       const message = error.message.toLowerCase();
 
@@ -0,0 +1,73 @@
+import { App, TFile, TFolder, Vault, getAllTags } from 'obsidian';
+
+/**
+ * All markdown notes inside a folder and its subfolders
+ */
+export function collectFolderNotes(folder: TFolder): TFile[] {
+  const notes: TFile[] = [];
+  Vault.recurseChildren(folder, (child) => {
+    if (child instanceof TFile && child.extension === 'md') {
+      notes.push(child);
+    }
+  });
+  return notes;
+}
+
+/**
+ * All notes carrying a tag, including nested tags (#inbox matches #inbox/todo)
+ * @param tag Tag with or without the leading #
+ */
+export function collectTaggedNotes(app: App, tag: string): TFile[] {
+  const wanted = normalizeTag(tag);
+  return app.vault.getMarkdownFiles().filter((file) => {
+    const cache = app.metadataCache.getFileCache(file);
+    const tags = cache ? (getAllTags(cache) ?? []) : [];
+    return tags.some((t) => {
+      const normalized = normalizeTag(t);
+      return normalized === wanted || normalized.startsWith(`${wanted}/`);
+    });
+  });
+}
+
+/**
+ * All notes whose path matches a query. A query wrapped in slashes
+ * (`/^Daily/`) is a case-insensitive regular expression; anything else is
+ * matched as case-insensitive text.
+ * @throws SyntaxError if the regular expression is invalid
+ */
+export function collectMatchingNotes(app: App, query: string): TFile[] {
+  const matches = createPathMatcher(query);
+  return app.vault
+    .getMarkdownFiles()
+    .filter((file) => matches(file.path.replace(/\.md$/, '')));
+}
+
+/**
+ * Every tag used in the vault, without the leading #, sorted
+ */
+export function getVaultTags(app: App): string[] {
+  const tags = new Set<string>();
+  app.vault.getMarkdownFiles().forEach((file) => {
+    const cache = app.metadataCache.getFileCache(file);
+    (cache ? (getAllTags(cache) ?? []) : []).forEach((tag) =>
+      tags.add(tag.replace(/^#/, ''))
+    );
+  });
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+function createPathMatcher(query: string): (path: string) => boolean {
+  const trimmed = query.trim();
+  const regexMatch = trimmed.match(/^\/(.+)\/$/);
+  if (regexMatch) {
+    const pattern = new RegExp(regexMatch[1], 'i');
+    return (path) => pattern.test(path);
+  }
+
+  const text = trimmed.toLowerCase();
+  return (path) => path.toLowerCase().includes(text);
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
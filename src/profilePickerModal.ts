@@ -0,0 +1,63 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+import { getProviderAdapter } from './providers';
+import type { PromptProfile } from './types';
+
+/**
+ * Fuzzy picker over the configured prompt profiles
+ */
+export class ProfilePickerModal extends FuzzySuggestModal<PromptProfile> {
+  private profiles: PromptProfile[];
+  private onPick: (profile: PromptProfile | null) => void;
+  private settled = false;
+
+  constructor(
+    app: App,
+    profiles: PromptProfile[],
+    onPick: (profile: PromptProfile | null) => void
+  ) {
+    super(app);
+    this.profiles = profiles;
+    this.onPick = onPick;
+    this.setPlaceholder('Choose a profile to generate the title with');
+  }
+
+  /**
+   * Open the picker and resolve with the chosen profile, or null if dismissed
+   */
+  static pick(
+    app: App,
+    profiles: PromptProfile[]
+  ): Promise<PromptProfile | null> {
+    return new Promise((resolve) => {
+      new ProfilePickerModal(app, profiles, resolve).open();
+    });
+  }
+
+  getItems(): PromptProfile[] {
+    return this.profiles;
+  }
+
+  getItemText(profile: PromptProfile): string {
+    const model = profile.model || 'default model';
+    return `${profile.name} (${getProviderAdapter(profile.aiProvider).name}, ${model})`;
+  }
+
+  onChooseItem(profile: PromptProfile): void {
+    this.settle(profile);
+  }
+
+  onClose(): void {
+    super.onClose();
+    // onChooseItem runs after onClose, so wait a tick before reporting a dismissal
+    window.setTimeout(() => this.settle(null), 0);
+  }
+
+  private settle(profile: PromptProfile | null): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    this.onPick(profile);
+  }
+}
@@ -0,0 +1,117 @@
+import { App, TFile, getAllTags, normalizePath } from 'obsidian';
+
+import { getProviderAdapter, getProviderModel } from './providers';
+import type {
+  ProfileRule,
+  PromptProfile,
+  TitleGeneratorSettings,
+} from './types';
+
+/**
+ * Create a profile that starts out with the current global settings
+ */
+export function createProfileFromSettings(
+  name: string,
+  settings: TitleGeneratorSettings
+): PromptProfile {
+  return {
+    id: `profile-${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2, 6)}`,
+    name,
+    aiProvider: settings.aiProvider,
+    model: getProviderModel(settings, settings.aiProvider),
+    temperature: settings.temperature,
+    customPrompt: settings.customPrompt,
+    refinePrompt: settings.refinePrompt,
+    maxTitleLength: settings.maxTitleLength,
+    titleCasing: settings.titleCasing,
+    preserveAcronyms: settings.preserveAcronyms,
+    titleTemplate: settings.titleTemplate,
+  };
+}
+
+/**
+ * Overlay a profile on the global settings. Without a profile the settings
+ * are returned unchanged.
+ */
+export function applyProfile(
+  settings: TitleGeneratorSettings,
+  profile?: PromptProfile
+): TitleGeneratorSettings {
+  if (!profile) {
+    return settings;
+  }
+
+  const merged: TitleGeneratorSettings = {
+    ...settings,
+    aiProvider: profile.aiProvider,
+    temperature: profile.temperature,
+    customPrompt: profile.customPrompt,
+    refinePrompt: profile.refinePrompt,
+    maxTitleLength: profile.maxTitleLength,
+    titleCasing: profile.titleCasing,
+    preserveAcronyms: profile.preserveAcronyms,
+    titleTemplate: profile.titleTemplate,
+  };
+
+  if (profile.model.trim()) {
+    const { modelField } = getProviderAdapter(profile.aiProvider);
+    (merged as any)[modelField] = profile.model.trim();
+  }
+  return merged;
+}
+
+/**
+ * Find the profile for a note using the first matching rule
+ */
+export function resolveProfile(
+  app: App,
+  file: TFile,
+  settings: TitleGeneratorSettings
+): PromptProfile | undefined {
+  for (const rule of settings.profileRules) {
+    // Rules pointing at a deleted profile are ignored
+    const profile = settings.profiles.find((p) => p.id === rule.profileId);
+    if (profile && matchesRule(app, file, rule)) {
+      return profile;
+    }
+  }
+  return undefined;
+}
+
+function matchesRule(app: App, file: TFile, rule: ProfileRule): boolean {
+  const value = rule.value.trim();
+  if (!value) {
+    return false;
+  }
+
+  const cache = app.metadataCache.getFileCache(file);
+  switch (rule.type) {
+    case 'folder': {
+      const folder = normalizePath(value);
+      return folder === '/' || file.path.startsWith(`${folder}/`);
+    }
+    case 'tag': {
+      const wanted = value.replace(/^#/, '').toLowerCase();
+      const tags = cache ? (getAllTags(cache) ?? []) : [];
+      return tags.some((tag) => {
+        const normalized = tag.replace(/^#/, '').toLowerCase();
+        return normalized === wanted || normalized.startsWith(`${wanted}/`);
+      });
+    }
+    case 'frontmatter': {
+      const key = rule.key?.trim();
+      const actual = key ? cache?.frontmatter?.[key] : undefined;
+      const values: unknown[] = Array.isArray(actual) ? actual : [actual];
+      return values.some(
+        (item) =>
+          item !== undefined &&
+          item !== null &&
+          String(item).toLowerCase() === value.toLowerCase()
+      );
+    }
+    default:
+      return false;
+  }
+}
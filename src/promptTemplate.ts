@@ -0,0 +1,301 @@
+import { App, TFile, getAllTags, moment } from 'obsidian';
+
+import { PROMPT_TEMPLATE_CONFIG } from './constants';
+import type { PromptContext, TitleGeneratorSettings } from './types';
+
+/**
+ * Prompt templates support `{variable}` substitution and conditional
+ * sections:
+ *
+ *   {#if tags}The note is tagged {tags}.{else}The note has no tags.{/if}
+ *   {#if !language}Answer in the note's language.{/if}
+ *
+ * A section is shown when its variable renders to a non-empty string.
+ * Sections can be nested. Variable names start with a letter or underscore
+ * and may contain dots, e.g. `frontmatter.project`, and one `:` argument
+ * such as a date format. Other braces, like those of JSON examples in a
+ * prompt, are left untouched.
+ */
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | {
+      type: 'if';
+      name: string;
+      negate: boolean;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    };
+
+/**
+ * Problems found while checking a template
+ */
+export interface TemplateIssues {
+  /** Syntax errors such as an unclosed {#if} */
+  errors: string[];
+  /** Variable names the template uses but that are not available */
+  unknownVariables: string[];
+}
+
+const NAME_PATTERN = String.raw`[A-Za-z_][\w.-]*(?::[^{}\s"']+)?`;
+const TAG_PATTERN = new RegExp(
+  String.raw`\{(#if\s+!?${NAME_PATTERN}|else|\/if|${NAME_PATTERN})\}`,
+  'g'
+);
+
+/**
+ * Render a template with the given variable lookup. Unknown variables are
+ * left in place so they stay visible in the output.
+ */
+export function renderTemplate(
+  template: string,
+  lookup: (name: string) => string | undefined
+): string {
+  const { nodes } = parseTemplate(template);
+  return renderNodes(nodes, lookup);
+}
+
+/**
+ * Check a template for syntax errors and unknown variables
+ * @param extraVariables Variables allowed in addition to the common ones
+ */
+export function validateTemplate(
+  template: string,
+  extraVariables: readonly string[] = []
+): TemplateIssues {
+  const { nodes, errors } = parseTemplate(template);
+  const allowed = new Set<string>([
+    ...PROMPT_TEMPLATE_CONFIG.VARIABLES,
+    ...extraVariables,
+  ]);
+
+  const unknown = new Set<string>();
+  const visit = (list: TemplateNode[]) =>
+    list.forEach((node) => {
+      if (node.type === 'variable' || node.type === 'if') {
+        if (!isKnownVariable(node.name, allowed)) {
+          unknown.add(node.name);
+        }
+      }
+      if (node.type === 'if') {
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    });
+  visit(nodes);
+
+  return { errors, unknownVariables: [...unknown] };
+}
+
+/**
+ * Create the variable lookup for a prompt
+ * @param extra Per-prompt values such as `title` for the refinement prompt
+ */
+export function createPromptVariables(
+  context: PromptContext,
+  settings: TitleGeneratorSettings,
+  extra: Record<string, string> = {}
+): (name: string) => string | undefined {
+  const values: Record<string, string> = {
+    max_length: settings.maxTitleLength.toString(),
+    filename: context.filename,
+    folder: context.folder,
+    tags: context.tags.join(', '),
+    date: moment().format(PROMPT_TEMPLATE_CONFIG.DATE_FORMAT),
+    language: context.language,
+    existing_titles_in_folder: context.existingTitlesInFolder.join('\n'),
+    ...extra,
+  };
+
+  return (name: string) => {
+    if (name in values) {
+      return values[name];
+    }
+    if (name.startsWith(PROMPT_TEMPLATE_CONFIG.DATE_PREFIX)) {
+      return moment().format(
+        name.slice(PROMPT_TEMPLATE_CONFIG.DATE_PREFIX.length)
+      );
+    }
+    if (name.startsWith(PROMPT_TEMPLATE_CONFIG.FRONTMATTER_PREFIX)) {
+      const key = name.slice(PROMPT_TEMPLATE_CONFIG.FRONTMATTER_PREFIX.length);
+      return formatFrontmatterValue(context.frontmatter[key]);
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Context for prompts that are not tied to a note
+ */
+export function createEmptyPromptContext(
+  settings: TitleGeneratorSettings
+): PromptContext {
+  return {
+    filename: '',
+    folder: '',
+    tags: [],
+    frontmatter: {},
+    language: settings.titleLanguage,
+    existingTitlesInFolder: [],
+  };
+}
+
+/**
+ * Collect the template context for a note. Without a file, an empty context
+ * is returned so prompts still render.
+ */
+export function createPromptContext(
+  app: App,
+  file: TFile | null,
+  settings: TitleGeneratorSettings
+): PromptContext {
+  if (!file) {
+    return createEmptyPromptContext(settings);
+  }
+
+  const cache = app.metadataCache.getFileCache(file);
+  const frontmatter: Record<string, unknown> = { ...cache?.frontmatter };
+  const noteLanguage = frontmatter.language ?? frontmatter.lang;
+
+  const siblings = file.parent?.children ?? [];
+  const existingTitlesInFolder = siblings
+    .filter(
+      (sibling): sibling is TFile =>
+        sibling instanceof TFile &&
+        sibling.extension === 'md' &&
+        sibling.path !== file.path
+    )
+    .map((sibling) => sibling.basename)
+    .slice(0, PROMPT_TEMPLATE_CONFIG.MAX_EXISTING_TITLES);
+
+  return {
+    filename: file.basename,
+    folder: file.parent && !file.parent.isRoot() ? file.parent.path : '',
+    tags: [
+      ...new Set(
+        (cache ? (getAllTags(cache) ?? []) : []).map((tag) =>
+          tag.replace(/^#/, '')
+        )
+      ),
+    ],
+    frontmatter,
+    language:
+      typeof noteLanguage === 'string' && noteLanguage.trim()
+        ? noteLanguage.trim()
+        : settings.titleLanguage,
+    existingTitlesInFolder,
+  };
+}
+
+function isKnownVariable(name: string, allowed: Set<string>): boolean {
+  return (
+    allowed.has(name) ||
+    (name.startsWith(PROMPT_TEMPLATE_CONFIG.FRONTMATTER_PREFIX) &&
+      name.length > PROMPT_TEMPLATE_CONFIG.FRONTMATTER_PREFIX.length) ||
+    (name.startsWith(PROMPT_TEMPLATE_CONFIG.DATE_PREFIX) &&
+      name.length > PROMPT_TEMPLATE_CONFIG.DATE_PREFIX.length)
+  );
+}
+
+function formatFrontmatterValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => formatFrontmatterValue(item)).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Parse a template into a node tree. Errors are collected rather than
+ * thrown; stray tags are kept as text.
+ */
+function parseTemplate(template: string): {
+  nodes: TemplateNode[];
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const root: TemplateNode[] = [];
+  const stack: Array<
+    Extract<TemplateNode, { type: 'if' }> & { inElse: boolean }
+  > = [];
+  const current = () => {
+    const open = stack[stack.length - 1];
+    if (!open) {
+      return root;
+    }
+    return open.inElse ? open.otherwise : open.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const tag = match[1];
+    if (tag.startsWith('#if')) {
+      const condition = tag.slice(3).trim();
+      const node = {
+        type: 'if' as const,
+        name: condition.replace(/^!/, ''),
+        negate: condition.startsWith('!'),
+        then: [],
+        otherwise: [],
+        inElse: false,
+      };
+      current().push(node);
+      stack.push(node);
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        errors.push('{else} without a matching {#if}');
+        current().push({ type: 'text', value: match[0] });
+      } else {
+        open.inElse = true;
+      }
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        errors.push('{/if} without a matching {#if}');
+        current().push({ type: 'text', value: match[0] });
+      }
+    } else {
+      current().push({ type: 'variable', name: tag });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ type: 'text', value: template.slice(lastIndex) });
+  }
+  stack.forEach((open) => errors.push(`{#if ${open.name}} is never closed`));
+
+  return { nodes: root, errors };
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  lookup: (name: string) => string | undefined
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'variable':
+          return lookup(node.name) ?? `{${node.name}}`;
+        case 'if':
+        default: {
+          const shown = Boolean(lookup(node.name)?.trim()) !== node.negate;
+          return renderNodes(shown ? node.then : node.otherwise, lookup);
+        }
+      }
+    })
+    .join('');
+}
@@ -0,0 +1,166 @@
+import { resolveApiKey } from '../apiKeys';
+import {
+  API_CONFIG,
+  MODEL_CONFIG,
+  STRUCTURED_OUTPUT_CONFIG,
+} from '../constants';
+import type {
+  AnthropicModelsResponse,
+  AnthropicResponse,
+  ProviderAdapter,
+} from '../types';
+
+/**
+ * Anthropic messages API provider
+ */
+export const anthropicProvider: ProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  apiKeyField: 'anthropicApiKey',
+  modelField: 'anthropicModel',
+  requiresApiKey: true,
+  capabilities: {
+    temperature: true,
+    modelListing: true,
+    structuredOutput: true,
+    streaming: true,
+  },
+  defaultModels: [
+    'claude-3-opus-20240229',
+    'claude-3-sonnet-20240229',
+    'claude-3-haiku-20240307',
+  ],
+
+  buildChatRequest(prompt, settings) {
+    return {
+      url: `${API_CONFIG.ANTHROPIC.BASE_URL}${API_CONFIG.ANTHROPIC.MESSAGES}`,
+      method: 'POST',
+      headers: {
+        ...API_CONFIG.ANTHROPIC.HEADERS,
+        'x-api-key': resolveApiKey(settings.anthropicApiKey),
+        'anthropic-version': API_CONFIG.ANTHROPIC.VERSION,
+      },
+      body: JSON.stringify({
+        model: settings.anthropicModel,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: settings.temperature,
+      }),
+    };
+  },
+
+  parseChatResponse(response: AnthropicResponse) {
+    const block = response?.content?.find((item) => item.type === 'text');
+    return block?.text?.trim() ?? '';
+  },
+
+  buildStructuredRequest(prompt, settings, schema) {
+    // Forcing a single tool makes the answer the tool's JSON arguments
+    const request = this.buildChatRequest(prompt, settings);
+    return {
+      ...request,
+      body: JSON.stringify({
+        ...JSON.parse(request.body as string),
+        tools: [
+          {
+            name: STRUCTURED_OUTPUT_CONFIG.NAME,
+            description: STRUCTURED_OUTPUT_CONFIG.DESCRIPTION,
+            input_schema: schema,
+          },
+        ],
+        tool_choice: { type: 'tool', name: STRUCTURED_OUTPUT_CONFIG.NAME },
+      }),
+    };
+  },
+
+  parseStructuredResponse(response: AnthropicResponse) {
+    return response?.content?.find((item) => item.type === 'tool_use')?.input;
+  },
+
+  buildStreamRequest(prompt, settings) {
+    const request = this.buildChatRequest(prompt, settings);
+    return {
+      ...request,
+      headers: {
+        ...request.headers,
+        // Streams are fetched from the app window, which Anthropic treats as a browser
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        ...JSON.parse(request.body as string),
+        stream: true,
+      }),
+    };
+  },
+
+  parseStreamEvent(event) {
+    if (event?.type === 'error') {
+      throw new Error(
+        `Anthropic stream error: ${event.error?.message ?? 'unknown error'}`
+      );
+    }
+    return event?.type === 'content_block_delta' &&
+      event.delta?.type === 'text_delta'
+      ? (event.delta.text ?? '')
+      : '';
+  },
+
+  parseUsage(response) {
+    // Streams report input tokens in message_start and output tokens in message_delta
+    const usage = response?.usage ?? response?.message?.usage;
+    return usage
+      ? {
+          inputTokens: usage.input_tokens ?? 0,
+          outputTokens: usage.output_tokens ?? 0,
+        }
+      : undefined;
+  },
+
+  buildModelsRequest(settings) {
+    return {
+      url: `${API_CONFIG.ANTHROPIC.BASE_URL}${API_CONFIG.ANTHROPIC.MODELS}`,
+      method: 'GET',
+      headers: {
+        'x-api-key': resolveApiKey(settings.anthropicApiKey),
+        'anthropic-version': API_CONFIG.ANTHROPIC.VERSION,
+      },
+    };
+  },
+
+  parseModelsResponse(response: AnthropicModelsResponse) {
+    if (!response?.data || !Array.isArray(response.data)) {
+      throw new Error('Invalid response format from Anthropic API');
+    }
+
+    return response.data.map((model) => model.id).sort();
+  },
+
+  validateApiKey(apiKey) {
+    return apiKey.startsWith('sk-ant-')
+      ? []
+      : ['Anthropic API keys typically start with "sk-ant-"'];
+  },
+
+  validateModelName(modelName) {
+    return modelName.includes(MODEL_CONFIG.ANTHROPIC_FILTER)
+      ? []
+      : ['Anthropic models typically contain "claude" in the name'];
+  },
+
+  validateResponse(response) {
+    if (
+      !response.content ||
+      !Array.isArray(response.content) ||
+      response.content.length === 0
+    ) {
+      return ['Invalid Anthropic response format'];
+    }
+    if (
+      !response.content.some(
+        (item: any) => item.text || item.type === 'tool_use'
+      )
+    ) {
+      return ['Anthropic response missing text'];
+    }
+    return [];
+  },
+};
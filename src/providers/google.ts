@@ -0,0 +1,191 @@
+import { resolveApiKey } from '../apiKeys';
+import { API_CONFIG, MODEL_CONFIG } from '../constants';
+import type {
+  GoogleModelsResponse,
+  GoogleResponse,
+  JsonSchema,
+  ProviderAdapter,
+} from '../types';
+import { parseJsonText } from '../utils';
+
+/**
+ * Convert a JSON Schema to the OpenAPI subset Gemini accepts as
+ * `responseSchema`: upper-case types and no `additionalProperties`
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const converted: Record<string, unknown> = {
+    type: schema.type.toUpperCase(),
+  };
+  if (schema.description) {
+    converted.description = schema.description;
+  }
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        toGeminiSchema(value),
+      ])
+    );
+  }
+  if (schema.items) {
+    converted.items = toGeminiSchema(schema.items);
+  }
+  if (schema.required) {
+    converted.required = schema.required;
+  }
+  return converted;
+}
+
+/**
+ * Google Gemini generateContent provider
+ */
+export const googleProvider: ProviderAdapter = {
+  id: 'google',
+  name: 'Google Gemini',
+  apiKeyField: 'googleApiKey',
+  modelField: 'googleModel',
+  requiresApiKey: true,
+  capabilities: {
+    temperature: true,
+    modelListing: true,
+    structuredOutput: true,
+    streaming: true,
+  },
+  defaultModels: [
+    'gemini-1.5-pro-latest',
+    'gemini-1.5-flash-latest',
+    'gemini-1.0-pro',
+  ],
+
+  buildChatRequest(prompt, settings) {
+    return {
+      url: `${API_CONFIG.GOOGLE.BASE_URL}${API_CONFIG.GOOGLE.MODELS}/${settings.googleModel}:generateContent`,
+      method: 'POST',
+      headers: {
+        ...API_CONFIG.GOOGLE.HEADERS,
+        'x-goog-api-key': resolveApiKey(settings.googleApiKey),
+      },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: settings.temperature,
+        },
+      }),
+    };
+  },
+
+  parseChatResponse(response: GoogleResponse) {
+    const candidate = response?.candidates?.[0];
+    const text = candidate?.content?.parts?.[0]?.text;
+
+    if (text === undefined) {
+      // A SAFETY finish reason means Google blocked the response
+      if (candidate?.finishReason === 'SAFETY') {
+        throw new Error(
+          'Title generation blocked by Google for safety reasons.'
+        );
+      }
+      return '';
+    }
+
+    return text.trim();
+  },
+
+  buildStructuredRequest(prompt, settings, schema) {
+    const request = this.buildChatRequest(prompt, settings);
+    const body = JSON.parse(request.body as string);
+    return {
+      ...request,
+      body: JSON.stringify({
+        ...body,
+        generationConfig: {
+          ...body.generationConfig,
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(schema),
+        },
+      }),
+    };
+  },
+
+  parseStructuredResponse(response: GoogleResponse) {
+    const text = this.parseChatResponse(response);
+    return text ? parseJsonText(text) : undefined;
+  },
+
+  buildStreamRequest(prompt, settings) {
+    return {
+      ...this.buildChatRequest(prompt, settings),
+      url: `${API_CONFIG.GOOGLE.BASE_URL}${API_CONFIG.GOOGLE.MODELS}/${settings.googleModel}:streamGenerateContent?alt=sse`,
+    };
+  },
+
+  parseStreamEvent(event: GoogleResponse) {
+    // Each event is a partial generateContent response
+    const candidate = event?.candidates?.[0];
+    if (candidate?.finishReason === 'SAFETY') {
+      throw new Error('Title generation blocked by Google for safety reasons.');
+    }
+    return candidate?.content?.parts?.[0]?.text ?? '';
+  },
+
+  parseUsage(response: GoogleResponse) {
+    const usage = response?.usageMetadata;
+    // Thinking tokens are billed as output
+    return usage
+      ? {
+          inputTokens: usage.promptTokenCount ?? 0,
+          outputTokens:
+            (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        }
+      : undefined;
+  },
+
+  buildModelsRequest(settings) {
+    return {
+      url: `${API_CONFIG.GOOGLE.BASE_URL}${API_CONFIG.GOOGLE.MODELS}`,
+      method: 'GET',
+      headers: {
+        'x-goog-api-key': resolveApiKey(settings.googleApiKey),
+      },
+    };
+  },
+
+  parseModelsResponse(response: GoogleModelsResponse) {
+    if (!response?.models || !Array.isArray(response.models)) {
+      throw new Error('Invalid response format from Google API');
+    }
+
+    return response.models
+      .filter((model) =>
+        model.supportedGenerationMethods?.includes('generateContent')
+      )
+      .map((model) => model.name.replace('models/', ''))
+      .sort();
+  },
+
+  validateApiKey(apiKey) {
+    return apiKey.length < 20
+      ? ['Google API keys are typically longer than 20 characters']
+      : [];
+  },
+
+  validateModelName(modelName) {
+    return modelName.includes(MODEL_CONFIG.GOOGLE_FILTER)
+      ? []
+      : ['Google models typically contain "gemini" in the name'];
+  },
+
+  validateResponse(response) {
+    if (
+      !response.candidates ||
+      !Array.isArray(response.candidates) ||
+      response.candidates.length === 0
+    ) {
+      return ['Invalid Google response format'];
+    }
+    if (!response.candidates[0].content?.parts?.[0]?.text) {
+      return ['Google response missing text'];
+    }
+    return [];
+  },
+};
@@ -0,0 +1,82 @@
+/**
+ * Provider registry for the Title Generator plugin
+ * Every module that needs provider-specific behaviour looks it up here,
+ * so adding a backend only requires a new adapter file and one entry below.
+ */
+
+import { resolveApiKey } from '../apiKeys';
+import type {
+  AIProvider,
+  ProviderAdapter,
+  TitleGeneratorSettings,
+} from '../types';
+import { anthropicProvider } from './anthropic';
+import { googleProvider } from './google';
+import { localProvider } from './local';
+import { openAIProvider } from './openai';
+
+export const PROVIDER_ADAPTERS = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  google: googleProvider,
+  local: localProvider,
+};
+
+/**
+ * Check whether a string names a registered provider
+ */
+export function isKnownProvider(provider: string): provider is AIProvider {
+  return Object.prototype.hasOwnProperty.call(PROVIDER_ADAPTERS, provider);
+}
+
+/**
+ * Get the adapter for a provider
+ */
+export function getProviderAdapter(provider: string): ProviderAdapter {
+  if (!isKnownProvider(provider)) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+  return PROVIDER_ADAPTERS[provider];
+}
+
+/**
+ * Get all registered provider ids in display order
+ */
+export function getProviderIds(): AIProvider[] {
+  return Object.keys(PROVIDER_ADAPTERS) as AIProvider[];
+}
+
+/**
+ * Build a record with one entry per registered provider
+ */
+export function createProviderRecord<T>(
+  factory: (provider: AIProvider) => T
+): Record<AIProvider, T> {
+  const record = {} as Record<AIProvider, T>;
+  getProviderIds().forEach((provider) => {
+    record[provider] = factory(provider);
+  });
+  return record;
+}
+
+/**
+ * Read the API key for a provider, resolving `env:NAME` references
+ */
+export function getProviderApiKey(
+  settings: TitleGeneratorSettings,
+  provider: AIProvider
+): string {
+  const adapter = getProviderAdapter(provider);
+  return resolveApiKey(settings[adapter.apiKeyField] as string);
+}
+
+/**
+ * Read the configured model for a provider
+ */
+export function getProviderModel(
+  settings: TitleGeneratorSettings,
+  provider: AIProvider
+): string {
+  const adapter = getProviderAdapter(provider);
+  return ((settings[adapter.modelField] as string) || '').trim();
+}
@@ -0,0 +1,112 @@
+import { resolveApiKey } from '../apiKeys';
+import { API_CONFIG } from '../constants';
+import type { ProviderAdapter, TitleGeneratorSettings } from '../types';
+import { stripThinkingBlocks } from '../utils';
+import {
+  buildOpenAIChatRequest,
+  buildOpenAIModelsRequest,
+  parseOpenAIChatResponse,
+  parseOpenAIModelsResponse,
+  parseOpenAIStreamEvent,
+  parseOpenAIStructuredResponse,
+  parseOpenAIUsage,
+  validateOpenAIResponse,
+} from './openai';
+
+/**
+ * Resolve the configured base URL without a trailing slash
+ */
+function getBaseUrl(settings: TitleGeneratorSettings): string {
+  const baseUrl =
+    settings.localBaseUrl.trim() || API_CONFIG.LOCAL.DEFAULT_BASE_URL;
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Self-hosted server speaking the OpenAI chat-completions protocol
+ * (Ollama, LM Studio, vLLM, llama.cpp server, ...)
+ */
+export const localProvider: ProviderAdapter = {
+  id: 'local',
+  name: 'Local (OpenAI-compatible)',
+  apiKeyField: 'localApiKey',
+  modelField: 'localModel',
+  baseUrlField: 'localBaseUrl',
+  requiresApiKey: false,
+  capabilities: {
+    temperature: true,
+    modelListing: true,
+    // Servers without JSON schema support ignore it or reject it with a 400
+    structuredOutput: true,
+    streaming: true,
+  },
+  defaultModels: [],
+
+  buildChatRequest(prompt, settings) {
+    return buildOpenAIChatRequest(
+      getBaseUrl(settings),
+      resolveApiKey(settings.localApiKey),
+      settings.localModel,
+      prompt,
+      settings.temperature
+    );
+  },
+
+  parseChatResponse(response) {
+    // Reasoning models return their chain of thought inline
+    return stripThinkingBlocks(parseOpenAIChatResponse(response));
+  },
+
+  buildStructuredRequest(prompt, settings, schema) {
+    return buildOpenAIChatRequest(
+      getBaseUrl(settings),
+      resolveApiKey(settings.localApiKey),
+      settings.localModel,
+      prompt,
+      settings.temperature,
+      schema
+    );
+  },
+
+  parseStructuredResponse: parseOpenAIStructuredResponse,
+
+  buildStreamRequest(prompt, settings) {
+    return buildOpenAIChatRequest(
+      getBaseUrl(settings),
+      resolveApiKey(settings.localApiKey),
+      settings.localModel,
+      prompt,
+      settings.temperature,
+      undefined,
+      true
+    );
+  },
+
+  parseStreamEvent: parseOpenAIStreamEvent,
+
+  parseUsage: parseOpenAIUsage,
+
+  buildModelsRequest(settings) {
+    return buildOpenAIModelsRequest(
+      getBaseUrl(settings),
+      resolveApiKey(settings.localApiKey)
+    );
+  },
+
+  parseModelsResponse(response) {
+    return parseOpenAIModelsResponse(response, 'local server');
+  },
+
+  validateApiKey() {
+    // Local servers accept arbitrary keys, if they check one at all
+    return [];
+  },
+
+  validateModelName() {
+    return [];
+  },
+
+  validateResponse(response) {
+    return validateOpenAIResponse(response, 'Local server');
+  },
+};
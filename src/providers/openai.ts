@@ -0,0 +1,250 @@
+import { resolveApiKey } from '../apiKeys';
+import {
+  API_CONFIG,
+  MODEL_CONFIG,
+  STRUCTURED_OUTPUT_CONFIG,
+} from '../constants';
+import type {
+  ApiRequestConfig,
+  JsonSchema,
+  OpenAIModelsResponse,
+  OpenAIResponse,
+  ProviderAdapter,
+  TokenUsage,
+} from '../types';
+import { parseJsonText } from '../utils';
+
+/**
+ * Build a chat-completions request in the OpenAI wire format.
+ * Shared with OpenAI-compatible servers, which only differ in base URL and key.
+ * @param schema Ask for JSON matching this schema via `response_format`
+ * @param stream Ask for the answer as server-sent events
+ */
+export function buildOpenAIChatRequest(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  prompt: string,
+  temperature: number,
+  schema?: JsonSchema,
+  stream = false
+): ApiRequestConfig {
+  const headers: Record<string, string> = { ...API_CONFIG.OPENAI.HEADERS };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  return {
+    url: `${baseUrl}${API_CONFIG.OPENAI.CHAT_COMPLETIONS}`,
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature,
+      ...(stream && { stream: true }),
+      ...(schema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: STRUCTURED_OUTPUT_CONFIG.NAME,
+            strict: true,
+            schema,
+          },
+        },
+      }),
+    }),
+  };
+}
+
+/**
+ * Build a `/models` listing request in the OpenAI wire format
+ */
+export function buildOpenAIModelsRequest(
+  baseUrl: string,
+  apiKey: string
+): ApiRequestConfig {
+  return {
+    url: `${baseUrl}${API_CONFIG.OPENAI.MODELS}`,
+    method: 'GET',
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+  };
+}
+
+/**
+ * Extract the message text from a chat-completions response
+ */
+export function parseOpenAIChatResponse(response: OpenAIResponse): string {
+  return response?.choices?.[0]?.message?.content?.trim() ?? '';
+}
+
+/**
+ * Extract the text delta from one streamed chat-completions chunk
+ */
+export function parseOpenAIStreamEvent(event: any): string {
+  return event?.choices?.[0]?.delta?.content ?? '';
+}
+
+/**
+ * Extract token counts from a chat-completions response or the final
+ * streamed chunk
+ */
+export function parseOpenAIUsage(
+  response: OpenAIResponse
+): TokenUsage | undefined {
+  const usage = response?.usage;
+  return usage
+    ? {
+        inputTokens: usage.prompt_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? 0,
+      }
+    : undefined;
+}
+
+/**
+ * Extract the JSON answer from a chat-completions response. A refusal has no
+ * content and yields undefined.
+ */
+export function parseOpenAIStructuredResponse(
+  response: OpenAIResponse
+): unknown {
+  const content = response?.choices?.[0]?.message?.content;
+  return content ? parseJsonText(content) : undefined;
+}
+
+/**
+ * Extract model ids from a `/models` response, optionally keeping only ids
+ * that contain `filter`
+ */
+export function parseOpenAIModelsResponse(
+  response: OpenAIModelsResponse,
+  providerName: string,
+  filter?: string
+): string[] {
+  if (!response?.data || !Array.isArray(response.data)) {
+    throw new Error(`Invalid response format from ${providerName} API`);
+  }
+
+  return response.data
+    .filter((model) => model.id && (!filter || model.id.includes(filter)))
+    .map((model) => model.id)
+    .sort();
+}
+
+/**
+ * Check a chat-completions response for the fields we read
+ */
+export function validateOpenAIResponse(
+  response: any,
+  providerName: string
+): string[] {
+  if (
+    !response.choices ||
+    !Array.isArray(response.choices) ||
+    response.choices.length === 0
+  ) {
+    return [`Invalid ${providerName} response format`];
+  }
+  if (!response.choices[0].message?.content) {
+    return [`${providerName} response missing content`];
+  }
+  return [];
+}
+
+/**
+ * OpenAI chat-completions provider
+ */
+export const openAIProvider: ProviderAdapter = {
+  id: 'openai',
+  name: 'OpenAI',
+  apiKeyField: 'openAiApiKey',
+  modelField: 'openAiModel',
+  requiresApiKey: true,
+  capabilities: {
+    temperature: true,
+    modelListing: true,
+    structuredOutput: true,
+    streaming: true,
+  },
+  defaultModels: ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'],
+
+  buildChatRequest(prompt, settings) {
+    return buildOpenAIChatRequest(
+      API_CONFIG.OPENAI.BASE_URL,
+      resolveApiKey(settings.openAiApiKey),
+      settings.openAiModel,
+      prompt,
+      settings.temperature
+    );
+  },
+
+  parseChatResponse: parseOpenAIChatResponse,
+
+  buildStructuredRequest(prompt, settings, schema) {
+    return buildOpenAIChatRequest(
+      API_CONFIG.OPENAI.BASE_URL,
+      resolveApiKey(settings.openAiApiKey),
+      settings.openAiModel,
+      prompt,
+      settings.temperature,
+      schema
+    );
+  },
+
+  parseStructuredResponse: parseOpenAIStructuredResponse,
+
+  buildStreamRequest(prompt, settings) {
+    const request = buildOpenAIChatRequest(
+      API_CONFIG.OPENAI.BASE_URL,
+      resolveApiKey(settings.openAiApiKey),
+      settings.openAiModel,
+      prompt,
+      settings.temperature,
+      undefined,
+      true
+    );
+    // Token counts are only sent in a final chunk when asked for
+    return {
+      ...request,
+      body: JSON.stringify({
+        ...JSON.parse(request.body as string),
+        stream_options: { include_usage: true },
+      }),
+    };
+  },
+
+  parseStreamEvent: parseOpenAIStreamEvent,
+
+  parseUsage: parseOpenAIUsage,
+
+  buildModelsRequest(settings) {
+    return buildOpenAIModelsRequest(
+      API_CONFIG.OPENAI.BASE_URL,
+      resolveApiKey(settings.openAiApiKey)
+    );
+  },
+
+  parseModelsResponse(response) {
+    return parseOpenAIModelsResponse(
+      response,
+      'OpenAI',
+      MODEL_CONFIG.OPENAI_FILTER
+    );
+  },
+
+  validateApiKey(apiKey) {
+    return apiKey.startsWith('sk-')
+      ? []
+      : ['OpenAI API keys typically start with "sk-"'];
+  },
+
+  validateModelName(modelName) {
+    return modelName.includes(MODEL_CONFIG.OPENAI_FILTER)
+      ? []
+      : ['OpenAI models typically contain "gpt" in the name'];
+  },
+
+  validateResponse(response) {
+    return validateOpenAIResponse(response, 'OpenAI');
+  },
+};
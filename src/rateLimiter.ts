@@ -0,0 +1,45 @@
+import { BATCH_CONFIG } from './constants';
+import { getErrorHandler } from './errorHandler';
+import { sleep } from './utils';
+
+/**
+ * Sliding-window limiter that spaces out requests to stay under a
+ * requests-per-minute budget
+ */
+export class RateLimiter {
+  private timestamps: number[] = [];
+
+  /**
+   * Wait until another request fits into the window, then claim it.
+   * A limit of 0 or less disables limiting.
+   * @param signal Aborting it ends the wait with a CANCELLED error
+   */
+  async acquire(
+    requestsPerMinute: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (requestsPerMinute <= 0) {
+      return;
+    }
+
+    for (;;) {
+      if (signal?.aborted) {
+        throw getErrorHandler().createCancelledError();
+      }
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter(
+        (timestamp) => now - timestamp < BATCH_CONFIG.RATE_LIMIT_WINDOW
+      );
+
+      if (this.timestamps.length < requestsPerMinute) {
+        this.timestamps.push(now);
+        return;
+      }
+
+      await sleep(
+        BATCH_CONFIG.RATE_LIMIT_WINDOW - (now - this.timestamps[0]) + 10,
+        signal
+      );
+    }
+  }
+}
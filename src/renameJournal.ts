@@ -0,0 +1,203 @@
+import { App, TFile } from 'obsidian';
+
+import { HISTORY_CONFIG } from './constants';
+import type {
+  FileOperationResult,
+  RenameJournalEntry,
+  TitleGeneratorSettings,
+} from './types';
+
+/**
+ * Persistent journal of renames and content edits made by the plugin.
+ * Entries are stored with the plugin data so they survive restarts and can
+ * be undone individually or per batch.
+ */
+export class RenameJournal {
+  private app: App;
+  private getSettings: () => TitleGeneratorSettings;
+  private saveSettings: () => Promise<void>;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    app: App,
+    getSettings: () => TitleGeneratorSettings,
+    saveSettings: () => Promise<void>
+  ) {
+    this.app = app;
+    this.getSettings = getSettings;
+    this.saveSettings = saveSettings;
+  }
+
+  /**
+   * Create an id that groups the entries of one batch run
+   */
+  static createBatchId(): string {
+    return `batch-${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2, 6)}`;
+  }
+
+  /**
+   * Record a successful operation. Operations that changed nothing are ignored.
+   */
+  async record(result: FileOperationResult, batchId?: string): Promise<void> {
+    const renamed = !!result.newPath && result.newPath !== result.originalPath;
+    if (!result.success || (!renamed && result.removedContent === undefined)) {
+      return;
+    }
+
+    const settings = this.getSettings();
+    const entry: RenameJournalEntry = {
+      ...result,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now(),
+      batchId,
+      undone: false,
+    };
+
+    settings.renameHistory = [...settings.renameHistory, entry].slice(
+      -HISTORY_CONFIG.MAX_ENTRIES
+    );
+    await this.persist();
+  }
+
+  /**
+   * All entries, newest first
+   */
+  getEntries(): RenameJournalEntry[] {
+    return [...this.getSettings().renameHistory].reverse();
+  }
+
+  /**
+   * When the plugin last titled the note now at `path`, if it has and the
+   * change was not undone
+   */
+  getLastTitledAt(path: string): number | null {
+    const entry = this.getEntries().find(
+      (e) => !e.undone && (e.newPath || e.originalPath) === path
+    );
+    return entry ? entry.timestamp : null;
+  }
+
+  /**
+   * Undo the most recent entry that has not been undone yet
+   */
+  async undoLast(): Promise<RenameJournalEntry | null> {
+    const entry = this.getEntries().find((e) => !e.undone);
+    if (!entry) {
+      return null;
+    }
+    await this.undoEntry(entry.id);
+    return entry;
+  }
+
+  /**
+   * Undo every remaining entry of the most recent batch
+   */
+  async undoLastBatch(): Promise<number> {
+    const entry = this.getEntries().find((e) => !e.undone && e.batchId);
+    if (!entry?.batchId) {
+      return 0;
+    }
+    return this.undoBatch(entry.batchId);
+  }
+
+  /**
+   * Undo every remaining entry of a batch, newest first.
+   * Stops at the first failure so later entries are never undone out of order.
+   */
+  async undoBatch(batchId: string): Promise<number> {
+    const entries = this.getEntries().filter(
+      (e) => e.batchId === batchId && !e.undone
+    );
+
+    let undone = 0;
+    for (const entry of entries) {
+      await this.undoEntry(entry.id);
+      undone++;
+    }
+    return undone;
+  }
+
+  /**
+   * Revert a single entry: rename the file back and restore removed content
+   */
+  async undoEntry(id: string): Promise<void> {
+    const entry = this.getSettings().renameHistory.find((e) => e.id === id);
+    if (!entry) {
+      throw new Error(`History entry not found: ${id}`);
+    }
+    if (entry.undone) {
+      return;
+    }
+
+    const currentPath = entry.newPath || entry.originalPath;
+    const file = this.app.vault.getAbstractFileByPath(currentPath);
+    if (!(file instanceof TFile)) {
+      throw new Error(`File not found: ${currentPath}`);
+    }
+
+    // Check the rename before touching the content, so a failed undo leaves
+    // the note as it was
+    const renameBack = currentPath !== entry.originalPath;
+    if (
+      renameBack &&
+      this.app.vault.getAbstractFileByPath(entry.originalPath)
+    ) {
+      throw new Error(
+        `Cannot rename back: ${entry.originalPath} already exists`
+      );
+    }
+
+    let previousContent: string | undefined;
+    if (entry.removedContent !== undefined) {
+      const replacement = entry.replacementContent ?? '';
+      const content = await this.app.vault.read(file);
+      if (!content.startsWith(replacement)) {
+        throw new Error(
+          `Cannot restore removed content: ${currentPath} was edited since`
+        );
+      }
+      await this.app.vault.modify(
+        file,
+        entry.removedContent + content.slice(replacement.length)
+      );
+      previousContent = content;
+    }
+
+    if (renameBack) {
+      try {
+        await this.app.fileManager.renameFile(file, entry.originalPath);
+      } catch (error) {
+        if (previousContent !== undefined) {
+          await this.app.vault.modify(file, previousContent);
+        }
+        throw error;
+      }
+    }
+
+    entry.undone = true;
+    await this.persist();
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    this.getSettings().renameHistory = [];
+    await this.persist();
+  }
+
+  /**
+   * Subscribe to journal changes. Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async persist(): Promise<void> {
+    await this.saveSettings();
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,207 @@
+import { App, FuzzySuggestModal, Modal, TFile, TFolder } from 'obsidian';
+
+import { UI_CONFIG } from './constants';
+import { collectMatchingNotes, getVaultTags } from './noteScope';
+
+/**
+ * Fuzzy picker over every folder in the vault
+ */
+export class FolderPickerModal extends FuzzySuggestModal<TFolder> {
+  private onPick: (folder: TFolder | null) => void;
+  private settled = false;
+
+  constructor(app: App, onPick: (folder: TFolder | null) => void) {
+    super(app);
+    this.onPick = onPick;
+    this.setPlaceholder('Choose a folder to title all notes in');
+  }
+
+  /**
+   * Open the picker and resolve with the chosen folder, or null if dismissed
+   */
+  static pick(app: App): Promise<TFolder | null> {
+    return new Promise((resolve) => {
+      new FolderPickerModal(app, resolve).open();
+    });
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault
+      .getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? '/' : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.settle(folder);
+  }
+
+  onClose(): void {
+    super.onClose();
+    // onChooseItem runs after onClose, so wait a tick before reporting a dismissal
+    window.setTimeout(() => this.settle(null), 0);
+  }
+
+  private settle(folder: TFolder | null): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    this.onPick(folder);
+  }
+}
+
+/**
+ * Fuzzy picker over every tag used in the vault
+ */
+export class TagPickerModal extends FuzzySuggestModal<string> {
+  private onPick: (tag: string | null) => void;
+  private settled = false;
+
+  constructor(app: App, onPick: (tag: string | null) => void) {
+    super(app);
+    this.onPick = onPick;
+    this.setPlaceholder('Choose a tag; nested tags are included');
+  }
+
+  /**
+   * Open the picker and resolve with the chosen tag (without #), or null if
+   * dismissed
+   */
+  static pick(app: App): Promise<string | null> {
+    return new Promise((resolve) => {
+      new TagPickerModal(app, resolve).open();
+    });
+  }
+
+  getItems(): string[] {
+    return getVaultTags(this.app);
+  }
+
+  getItemText(tag: string): string {
+    return `#${tag}`;
+  }
+
+  onChooseItem(tag: string): void {
+    this.settle(tag);
+  }
+
+  onClose(): void {
+    super.onClose();
+    // onChooseItem runs after onClose, so wait a tick before reporting a dismissal
+    window.setTimeout(() => this.settle(null), 0);
+  }
+
+  private settle(tag: string | null): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    this.onPick(tag);
+  }
+}
+
+/**
+ * Prompt for a text or /regex/ query over note paths, showing how many notes
+ * match while typing
+ */
+export class PatternPromptModal extends Modal {
+  private onSubmit: (files: TFile[] | null) => void;
+  private settled = false;
+  private matches: TFile[] = [];
+
+  constructor(app: App, onSubmit: (files: TFile[] | null) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  /**
+   * Open the prompt and resolve with the matching notes, or null if cancelled
+   */
+  static pick(app: App): Promise<TFile[] | null> {
+    return new Promise((resolve) => {
+      new PatternPromptModal(app, resolve).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Generate titles for matching notes');
+
+    contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_CURRENT,
+      text: 'Text matches anywhere in the note path. Wrap a regular expression in slashes, e.g. /^Inbox\\/Untitled/.',
+    });
+
+    const input = contentEl.createEl('input', {
+      type: 'text',
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_INPUT,
+    });
+    const statusEl = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_CURRENT,
+    });
+
+    const buttonsEl = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_BUTTONS,
+    });
+    buttonsEl
+      .createEl('button', { text: 'Cancel' })
+      .addEventListener('click', () => this.close());
+    const submitButton = buttonsEl.createEl('button', {
+      text: 'Generate titles',
+      cls: 'mod-cta',
+    });
+    submitButton.disabled = true;
+    submitButton.addEventListener('click', () => this.submit());
+
+    input.addEventListener('input', () => {
+      this.matches = [];
+      if (input.value.trim()) {
+        try {
+          this.matches = collectMatchingNotes(this.app, input.value);
+          statusEl.setText(`${this.matches.length} matching notes`);
+        } catch (error) {
+          statusEl.setText(
+            `Invalid regular expression: ${(error as Error).message}`
+          );
+        }
+      } else {
+        statusEl.setText('');
+      }
+      submitButton.disabled = this.matches.length === 0;
+    });
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.submit();
+      }
+    });
+
+    input.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.settle(null);
+  }
+
+  private submit(): void {
+    if (this.matches.length === 0) {
+      return;
+    }
+    this.settle(this.matches);
+    this.close();
+  }
+
+  private settle(files: TFile[] | null): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    this.onSubmit(files);
+  }
+}
@@ -1,25 +1,58 @@
-import { App, PluginSettingTab, Setting, TextComponent } from 'obsidian';
+import { App, PluginSettingTab, Setting, TextComponent, moment } from 'obsidian';
+
 // Test 2: Consistency validation
-import type { AIProvider, TitleGeneratorSettings } from './types';
+import {
+  API_CONFIG,
+  AUTO_TITLE_CONFIG,
+  BATCH_CONFIG,
+  FALLBACK_CONFIG,
+  LOG_CONFIG,
+  PROMPT_TEMPLATE_CONFIG,
+  TITLE_CONFIG,
+  UI_CONFIG,
+  USAGE_CONFIG,
+} from './constants';
+import { getLogger } from './logger';
 import type TitleGeneratorPlugin from './main';
 import { ModelService } from './modelService';
-
-export const AI_PROVIDERS: Record<
+import { createProfileFromSettings } from './profiles';
+import { createPromptContext, createPromptVariables, renderTemplate } from './promptTemplate';
+import {
+  createProviderRecord,
+  getProviderAdapter,
+  getProviderApiKey,
+  getProviderIds,
+} from './providers';
+import { applyTitleTemplate } from './titleStyle';
+import type {
   AIProvider,
-  { name: string; requiresApiKey: boolean }
-> = {
-  openai: {
-    name: 'OpenAI',
-    requiresApiKey: true,
-  },
-  anthropic: {
-    name: 'Anthropic',
-    requiresApiKey: true,
-  },
-  google: {
-    name: 'Google Gemini',
-    requiresApiKey: true,
-  },
+  ApiKeyStorage,
+  BudgetPeriod,
+  ContentSelection,
+  FallbackTrigger,
+  LogLevel,
+  ProfileRuleType,
+  PromptProfile,
+  ProviderAdapter,
+  TitleCasing,
+  TitleGeneratorSettings,
+} from './types';
+import { getValidationService } from './validation';
+
+/**
+ * Format a dollar amount, keeping enough digits for sub-cent costs
+ */
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+const TITLE_CASING_OPTIONS: Record<TitleCasing, string> = {
+  none: 'Keep as generated',
+  lower: 'lower case',
+  title: 'Title Case',
+  sentence: 'Sentence case',
+  kebab: 'kebab-case',
+  snake: 'snake_case',
 };
 
 export const DEFAULT_SETTINGS: TitleGeneratorSettings = {
@@ -28,38 +61,81 @@ export const DEFAULT_SETTINGS: TitleGeneratorSettings = {
   openAiApiKey: '',
   anthropicApiKey: '',
   googleApiKey: '',
+  localApiKey: '',
+  apiKeyStorage: 'plugin',
+  fallbackProviders: [],
+  fallbackTriggers: [...FALLBACK_CONFIG.DEFAULT_TRIGGERS],
+  localBaseUrl: API_CONFIG.LOCAL.DEFAULT_BASE_URL,
 
   // Models
   openAiModel: '',
   anthropicModel: '',
   googleModel: '',
+  localModel: '',
 
   // Dynamic Model Caching
-  cachedModels: {
-    openai: { models: [], lastUpdated: 0 },
-    anthropic: { models: [], lastUpdated: 0 },
-    google: { models: [], lastUpdated: 0 },
-  },
-  modelLoadingState: {
-    openai: false,
-    anthropic: false,
-    google: false,
-  },
+  cachedModels: createProviderRecord(() => ({ models: [], lastUpdated: 0 })),
+  modelLoadingState: createProviderRecord(() => false),
+
+  // Output Targets
+  renameFile: true,
+  writeFrontmatterTitle: false,
+  frontmatterTitleKey: 'title',
+  updateFirstHeading: false,
+
+  // Batch Processing
+  batchConcurrency: BATCH_CONFIG.DEFAULT_CONCURRENCY,
+  requestsPerMinute: createProviderRecord(() => 0),
+  writeBatchReport: true,
+  batchReportFolder: '',
+  skipNamedNotes: false,
+  skipRecentlyTitledDays: 0,
+
+  // Automatic Titles
+  autoTitleEnabled: false,
+  autoTitlePattern: AUTO_TITLE_CONFIG.DEFAULT_PATTERN,
+  autoTitleIdleSeconds: AUTO_TITLE_CONFIG.DEFAULT_IDLE_SECONDS,
+  autoTitleMinLength: AUTO_TITLE_CONFIG.DEFAULT_MIN_LENGTH,
+  autoTitleIncludeFolders: [],
+  autoTitleExcludeFolders: [],
+  autoTitleCooldownMinutes: AUTO_TITLE_CONFIG.DEFAULT_COOLDOWN_MINUTES,
 
   // Title
-  lowerCaseTitles: false,
-  removeForbiddenChars: true,
+  previewBatchRenames: false,
+  suggestMultipleTitles: false,
+  titleCandidateCount: TITLE_CONFIG.DEFAULT_CANDIDATE_COUNT,
+  titleCasing: 'none',
+  preserveAcronyms: true,
+  titleTemplate: '{title}',
   /** Enable detailed console log output for debugging */
-  debugMode: false,
+  logLevel: 'info',
+  redactLogContent: true,
 
   // Prompt and Content
   customPrompt:
     'Create a concise title for this text. Respond with ONLY the title - no explanations, quotes, or extra text. Maximum {max_length} characters.',
   refinePrompt:
     'Make this title shorter (under {max_length} characters): "{title}". Respond with ONLY the new title.',
+  titleLanguage: '',
+  useStructuredOutput: true,
+  streamTitles: false,
   temperature: 0.3,
   maxTitleLength: 60,
   maxContentLength: 2000,
+  contentSelection: 'beginning',
+
+  // Prompt Profiles
+  profiles: [],
+  profileRules: [],
+
+  // Usage and Budget
+  modelPrices: USAGE_CONFIG.DEFAULT_PRICES.map((price) => ({ ...price })),
+  usageHistory: [],
+  budgetLimit: 0,
+  budgetPeriod: 'day',
+
+  // Rename History
+  renameHistory: [],
 
   // Duplicate Detection Settings
   enableDuplicateRemoval: false,
@@ -67,18 +143,21 @@ export const DEFAULT_SETTINGS: TitleGeneratorSettings = {
   autoRemoveDuplicates: false,
   confirmBeforeRemoval: true,
   removeOnlyExactMatches: false,
+  useAIDuplicateTieBreaker: false,
 };
 
 export class TitleGeneratorSettingTab extends PluginSettingTab {
   plugin: TitleGeneratorPlugin;
   modelService: ModelService;
+  /** Profile whose details stay expanded across re-renders */
+  private expandedProfileId: string | null = null;
 
   constructor(app: App, plugin: TitleGeneratorPlugin) {
     super(app, plugin);
     this.plugin = plugin;
     this.modelService = new ModelService(
       () => this.plugin.settings,
-      () => this.plugin.saveSettings()
+      () => this.plugin.saveInternalState()
     );
   }
 
@@ -92,41 +171,185 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
     containerEl.createEl('h3', { text: 'General' });
 
     new Setting(containerEl)
-      .setName('Lower-case titles')
+      .setName('Title casing')
+      .setDesc('How generated titles are capitalized.')
+      .addDropdown((dropdown) => {
+        Object.entries(TITLE_CASING_OPTIONS).forEach(([value, label]) => dropdown.addOption(value, label));
+        dropdown.setValue(this.plugin.settings.titleCasing).onChange(async (value) => {
+          this.plugin.settings.titleCasing = value as TitleCasing;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Preserve acronyms')
+      .setDesc('Keep all-caps words such as API or NASA unchanged when changing the casing, except in kebab-case and snake_case.')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.preserveAcronyms)
+          .onChange(async (value) => {
+            this.plugin.settings.preserveAcronyms = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    const templateSetting = new Setting(containerEl)
+      .setName('Title template')
+      .addText((text) =>
+        text
+          .setPlaceholder('{title}')
+          .setValue(this.plugin.settings.titleTemplate)
+          .onChange(async (value) => {
+            if (!this.showTitleTemplateIssues(templateSetting, value)) {
+              return;
+            }
+            this.plugin.settings.titleTemplate = value;
+            await this.plugin.saveSettings();
+          })
+      );
+    this.showTitleTemplateIssues(templateSetting, this.plugin.settings.titleTemplate);
+
+    new Setting(containerEl)
+      .setName('Choose from suggestions')
       .setDesc(
-        'If enabled, all generated titles will be converted to lower case.'
+        'If enabled, generating a title shows several suggestions to pick from or edit before the note is renamed.'
+      )
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.suggestMultipleTitles)
+          .onChange(async (value) => {
+            this.plugin.settings.suggestMultipleTitles = value;
+            await this.plugin.saveSettings();
+            this.display(); // Re-render to show/hide the count option
+          });
+      });
+
+    if (this.plugin.settings.suggestMultipleTitles) {
+      new Setting(containerEl)
+        .setName('Number of suggestions')
+        .setDesc('How many title suggestions to request from the AI.')
+        .addSlider((slider) => {
+          slider
+            .setLimits(
+              TITLE_CONFIG.MIN_CANDIDATE_COUNT,
+              TITLE_CONFIG.MAX_CANDIDATE_COUNT,
+              1
+            )
+            .setValue(this.plugin.settings.titleCandidateCount)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.titleCandidateCount = value;
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName('Preview batch renames')
+      .setDesc(
+        'If enabled, generating titles for several notes first shows a table of old and new names to review and edit. Only approved notes are renamed.'
+      )
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.previewBatchRenames)
+          .onChange(async (value) => {
+            this.plugin.settings.previewBatchRenames = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Log level')
+      .setDesc('Messages below this level are left out of the console and the log pane. Debug includes prompts and AI answers.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('debug', 'Debug')
+          .addOption('info', 'Info')
+          .addOption('warn', 'Warnings')
+          .addOption('error', 'Errors')
+          .addOption('off', 'Off')
+          .setValue(this.plugin.settings.logLevel)
+          .onChange(async (value) => {
+            this.plugin.settings.logLevel = value as LogLevel;
+            await this.plugin.saveSettings();
+          })
       )
+      .addExtraButton((btn) =>
+        btn
+          .setIcon(LOG_CONFIG.VIEW_ICON)
+          .setTooltip('Show log')
+          .onClick(() => this.plugin.showView(LOG_CONFIG.VIEW_TYPE))
+      );
+
+    new Setting(containerEl)
+      .setName('Hide note content in logs')
+      .setDesc('Log the length of note text and titles instead of the text itself. Turn off only to share a log for a bug report.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.redactLogContent).onChange(async (value) => {
+          this.plugin.settings.redactLogContent = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    /* --- Output Settings --- */
+    containerEl.createEl('h3', { text: 'Output' });
+
+    new Setting(containerEl)
+      .setName('Rename file')
+      .setDesc('Rename the note to the generated title.')
       .addToggle((toggle) => {
         toggle
-          .setValue(this.plugin.settings.lowerCaseTitles)
+          .setValue(this.plugin.settings.renameFile)
           .onChange(async (value) => {
-            this.plugin.settings.lowerCaseTitles = value;
+            this.plugin.settings.renameFile = value;
             await this.plugin.saveSettings();
           });
       });
 
     new Setting(containerEl)
-      .setName('Remove forbidden characters')
+      .setName('Write title to frontmatter')
       .setDesc(
-        'If enabled, characters that are forbidden in filenames will be removed.'
+        'Store the generated title in a frontmatter property. Useful for notes whose filenames must not change, such as Zettelkasten IDs.'
       )
       .addToggle((toggle) => {
         toggle
-          .setValue(this.plugin.settings.removeForbiddenChars)
+          .setValue(this.plugin.settings.writeFrontmatterTitle)
           .onChange(async (value) => {
-            this.plugin.settings.removeForbiddenChars = value;
+            this.plugin.settings.writeFrontmatterTitle = value;
             await this.plugin.saveSettings();
+            this.display(); // Re-render to show/hide the key option
           });
       });
 
+    if (this.plugin.settings.writeFrontmatterTitle) {
+      new Setting(containerEl)
+        .setName('Frontmatter property')
+        .setDesc(
+          'Property to write the title to, e.g. "title". List properties such as "aliases" get the title appended.'
+        )
+        .addText((text) => {
+          text
+            .setPlaceholder(DEFAULT_SETTINGS.frontmatterTitleKey)
+            .setValue(this.plugin.settings.frontmatterTitleKey)
+            .onChange(async (value) => {
+              if (value.trim()) {
+                this.plugin.settings.frontmatterTitleKey = value.trim();
+                await this.plugin.saveSettings();
+              }
+            });
+        });
+    }
+
     new Setting(containerEl)
-      .setName('Debug mode')
-      .setDesc('Enable detailed console logging for troubleshooting.')
+      .setName('Set first heading')
+      .setDesc(
+        'Replace the first level-1 heading with the generated title, or insert one at the top of the note.'
+      )
       .addToggle((toggle) => {
         toggle
-          .setValue(this.plugin.settings.debugMode)
+          .setValue(this.plugin.settings.updateFirstHeading)
           .onChange(async (value) => {
-            this.plugin.settings.debugMode = value;
+            this.plugin.settings.updateFirstHeading = value;
             await this.plugin.saveSettings();
           });
       });
@@ -138,8 +361,8 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
       .setName('AI Provider')
       .setDesc('Select the AI service you want to use to generate titles.')
       .addDropdown((dropdown) => {
-        Object.entries(AI_PROVIDERS).forEach(([key, provider]) => {
-          dropdown.addOption(key, provider.name);
+        getProviderIds().forEach((id) => {
+          dropdown.addOption(id, getProviderAdapter(id).name);
         });
         dropdown
           .setValue(this.plugin.settings.aiProvider)
@@ -151,37 +374,109 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
       });
 
     this.renderProviderSettings(containerEl);
+    this.renderFallbackSettings(containerEl);
 
     /* --- Prompt and Content Settings --- */
     containerEl.createEl('h3', { text: 'Prompts and Content' });
+    // Set once the preview below exists; the prompt fields refresh it as they change
+    let updatePreview = () => {};
 
-    new Setting(containerEl)
+    const variableList = PROMPT_TEMPLATE_CONFIG.VARIABLES.map((name) => `{${name}}`).join(', ');
+    const promptDesc = `The prompt sent to the AI. Available variables: ${variableList}, {frontmatter.<key>} and {date:<format>}. Show text conditionally with {#if tags}...{else}...{/if}; {#if !tags} tests for an empty value.`;
+    const promptSetting = new Setting(containerEl)
       .setName('Initial Prompt')
-      .setDesc(
-        'The prompt sent to the AI. Use {max_length} to insert the max title length.'
-      )
+      .setDesc(promptDesc)
       .addTextArea((ta) => {
         ta.setPlaceholder(DEFAULT_SETTINGS.customPrompt)
           .setValue(this.plugin.settings.customPrompt)
           .onChange(async (value) => {
             this.plugin.settings.customPrompt = value;
+            this.showPromptIssues(promptSetting, promptDesc, value, false);
+            updatePreview();
             await this.plugin.saveSettings();
           });
       });
+    this.showPromptIssues(promptSetting, promptDesc, this.plugin.settings.customPrompt, false);
 
-    new Setting(containerEl)
+    const refineDesc =
+      'The prompt used to shorten a title if it exceeds the length limit. Supports the same variables as the initial prompt, plus {title}.';
+    const refineSetting = new Setting(containerEl)
       .setName('Refinement Prompt')
-      .setDesc(
-        'The prompt used to shorten a title if it exceeds the length limit. Use {max_length} and {title}.'
-      )
+      .setDesc(refineDesc)
       .addTextArea((ta) => {
         ta.setPlaceholder(DEFAULT_SETTINGS.refinePrompt)
           .setValue(this.plugin.settings.refinePrompt)
           .onChange(async (value) => {
             this.plugin.settings.refinePrompt = value;
+            this.showPromptIssues(refineSetting, refineDesc, value, true);
             await this.plugin.saveSettings();
           });
       });
+    this.showPromptIssues(refineSetting, refineDesc, this.plugin.settings.refinePrompt, true);
+
+    new Setting(containerEl)
+      .setName('Title language')
+      .setDesc(
+        'Value of {language} in prompts, e.g. "German". A "language" or "lang" frontmatter property on the note takes precedence.'
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('Same as the note')
+          .setValue(this.plugin.settings.titleLanguage)
+          .onChange(async (value) => {
+            this.plugin.settings.titleLanguage = value.trim();
+            updatePreview();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Structured output')
+      .setDesc(
+        'Ask the provider for a JSON answer ({title, alternatives, language}) instead of cleaning up free text. Models that do not support it fall back to the text cleaner automatically.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.useStructuredOutput)
+          .onChange(async (value) => {
+            this.plugin.settings.useStructuredOutput = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Stream titles')
+      .setDesc(
+        'Show the title in the status bar while it is being generated. Use the stop button in the status bar or the "Stop title generation" command to stop. Applies to single notes; streamed answers skip structured output.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.streamTitles)
+          .onChange(async (value) => {
+            this.plugin.settings.streamTitles = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const activeFile = this.app.workspace.getActiveFile();
+    new Setting(containerEl)
+      .setName('Prompt preview')
+      .setDesc(
+        activeFile
+          ? `The initial prompt as it would be sent for "${activeFile.basename}".`
+          : 'The initial prompt as it would be rendered. Open a note to preview it with that note\'s details.'
+      );
+    const previewEl = containerEl.createEl('pre', { cls: UI_CONFIG.CSS_CLASSES.PROMPT_PREVIEW });
+    updatePreview = () => {
+      const context = createPromptContext(this.app, activeFile, this.plugin.settings);
+      previewEl.setText(
+        renderTemplate(
+          this.plugin.settings.customPrompt,
+          createPromptVariables(context, this.plugin.settings)
+        )
+      );
+    };
+    updatePreview();
 
     new Setting(containerEl)
       .setName('Temperature')
@@ -208,7 +503,7 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
           .setValue(this.plugin.settings.maxTitleLength.toString())
           .onChange(async (value) => {
             const parsed = parseInt(value, 10);
-            if (!isNaN(parsed)) {
+            if (!Number.isNaN(parsed)) {
               this.plugin.settings.maxTitleLength = parsed;
               await this.plugin.saveSettings();
             }
@@ -226,13 +521,32 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
           .setValue(this.plugin.settings.maxContentLength.toString())
           .onChange(async (value) => {
             const parsed = parseInt(value, 10);
-            if (!isNaN(parsed)) {
+            if (!Number.isNaN(parsed)) {
               this.plugin.settings.maxContentLength = parsed;
               await this.plugin.saveSettings();
             }
           });
       });
 
+    new Setting(containerEl)
+      .setName('Content selection')
+      .setDesc(
+        'Which part of a long note is sent to the AI. Frontmatter, code blocks, embeds and link syntax are always left out.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('beginning', 'Beginning of the note')
+          .addOption('sample', 'Beginning, headings and end')
+          .setValue(this.plugin.settings.contentSelection)
+          .onChange(async (value) => {
+            this.plugin.settings.contentSelection = value as ContentSelection;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    /* --- Profile Settings --- */
+    this.renderProfileSettings(containerEl);
+
     /* --- Duplicate Detection Settings --- */
     containerEl.createEl('h3', { text: 'Duplicate Title Detection' });
 
@@ -311,85 +625,883 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
             .onChange(async (value) => {
               this.plugin.settings.removeOnlyExactMatches = value;
               await this.plugin.saveSettings();
+              this.display(); // Re-render to show/hide the tie-breaker option
             });
         });
+
+      if (!this.plugin.settings.removeOnlyExactMatches) {
+        new Setting(containerEl)
+          .setName('AI tie-breaker')
+          .setDesc(
+            'Ask the AI about lines that are almost similar enough to count as duplicates. Costs an extra request only for those lines.'
+          )
+          .addToggle((toggle) => {
+            toggle
+              .setValue(this.plugin.settings.useAIDuplicateTieBreaker)
+              .onChange(async (value) => {
+                this.plugin.settings.useAIDuplicateTieBreaker = value;
+                await this.plugin.saveSettings();
+              });
+          });
+      }
+    }
+
+    /* --- Batch Processing Settings --- */
+    containerEl.createEl('h3', { text: 'Batch Processing' });
+
+    new Setting(containerEl)
+      .setName('Concurrent requests')
+      .setDesc(
+        'How many notes are processed at the same time during batch runs. Combine with the provider\'s requests-per-minute limit to avoid rate-limit errors.'
+      )
+      .addSlider((slider) => {
+        slider
+          .setLimits(BATCH_CONFIG.MIN_CONCURRENCY, BATCH_CONFIG.MAX_CONCURRENCY, 1)
+          .setValue(this.plugin.settings.batchConcurrency)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.batchConcurrency = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Skip named notes')
+      .setDesc(
+        'Folder, tag and search commands only title notes whose filename still matches the "Filename pattern" under Automatic Titles (e.g. "Untitled 3").'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.skipNamedNotes)
+          .onChange(async (value) => {
+            this.plugin.settings.skipNamedNotes = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Skip recently titled notes (days)')
+      .setDesc(
+        'Folder, tag and search commands skip notes this plugin titled within this many days. 0 disables the filter.'
+      )
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text
+          .setValue(this.plugin.settings.skipRecentlyTitledDays.toString())
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            if (!Number.isNaN(parsed) && parsed >= 0) {
+              this.plugin.settings.skipRecentlyTitledDays = parsed;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Write batch report')
+      .setDesc(
+        'After each batch run, create a note listing which notes succeeded, were skipped or failed, and why.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.writeBatchReport)
+          .onChange(async (value) => {
+            this.plugin.settings.writeBatchReport = value;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.writeBatchReport) {
+      new Setting(containerEl)
+        .setName('Report folder')
+        .setDesc('Folder for batch report notes. Leave empty for the vault root.')
+        .addText((text) =>
+          text
+            .setPlaceholder('Title Generator reports')
+            .setValue(this.plugin.settings.batchReportFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.batchReportFolder = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
     }
+
+    /* --- Automatic Title Settings --- */
+    containerEl.createEl('h3', { text: 'Automatic Titles' });
+
+    new Setting(containerEl)
+      .setName('Title untitled notes automatically')
+      .setDesc(
+        'Generate a title for notes whose filename matches the pattern below once you stop editing them.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoTitleEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.autoTitleEnabled = value;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    const patternDesc =
+      'Regular expression for default note names, matched against the filename without extension, e.g. ^Untitled( \\d+)?$ or ^\\d{12}$ for timestamp names. Also used by "Skip named notes".';
+    const patternSetting = new Setting(containerEl)
+      .setName('Filename pattern')
+      .setDesc(patternDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder(AUTO_TITLE_CONFIG.DEFAULT_PATTERN)
+          .setValue(this.plugin.settings.autoTitlePattern)
+          .onChange(async (value) => {
+            const validation = getValidationService().validateFilenamePattern(value);
+            if (!validation.valid) {
+              patternSetting.setDesc(`${patternDesc} Error: ${validation.errors[0]}`);
+              return;
+            }
+            patternSetting.setDesc(
+              validation.warnings.length > 0
+                ? `${patternDesc} Warning: ${validation.warnings[0]}`
+                : patternDesc
+            );
+            this.plugin.settings.autoTitlePattern = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    if (this.plugin.settings.autoTitleEnabled) {
+      new Setting(containerEl)
+        .setName('Idle time (seconds)')
+        .setDesc('How long a note must go without edits before its title is generated.')
+        .addSlider((slider) => {
+          slider
+            .setLimits(AUTO_TITLE_CONFIG.MIN_IDLE_SECONDS, AUTO_TITLE_CONFIG.MAX_IDLE_SECONDS, 5)
+            .setValue(this.plugin.settings.autoTitleIdleSeconds)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.autoTitleIdleSeconds = value;
+              await this.plugin.saveSettings();
+            });
+        });
+
+      new Setting(containerEl)
+        .setName('Minimum note length')
+        .setDesc('Notes with fewer characters than this are left alone.')
+        .addText((text) => {
+          text.inputEl.type = 'number';
+          text
+            .setValue(this.plugin.settings.autoTitleMinLength.toString())
+            .onChange(async (value) => {
+              const parsed = parseInt(value, 10);
+              if (!Number.isNaN(parsed) && parsed >= 0) {
+                this.plugin.settings.autoTitleMinLength = parsed;
+                await this.plugin.saveSettings();
+              }
+            });
+        });
+
+      new Setting(containerEl)
+        .setName('Only in folders')
+        .setDesc('One folder per line. Subfolders are included. Leave empty to watch the whole vault.')
+        .addTextArea((ta) =>
+          ta
+            .setPlaceholder('Inbox')
+            .setValue(this.plugin.settings.autoTitleIncludeFolders.join('\n'))
+            .onChange(async (value) => {
+              this.plugin.settings.autoTitleIncludeFolders = this.parseFolderList(value);
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('Skip folders')
+        .setDesc('One folder per line. Takes precedence over the folders above.')
+        .addTextArea((ta) =>
+          ta
+            .setPlaceholder('Templates')
+            .setValue(this.plugin.settings.autoTitleExcludeFolders.join('\n'))
+            .onChange(async (value) => {
+              this.plugin.settings.autoTitleExcludeFolders = this.parseFolderList(value);
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('Cooldown (minutes)')
+        .setDesc('A note is attempted at most once in this period, even if the title could not be generated.')
+        .addText((text) => {
+          text.inputEl.type = 'number';
+          text
+            .setValue(this.plugin.settings.autoTitleCooldownMinutes.toString())
+            .onChange(async (value) => {
+              const parsed = parseInt(value, 10);
+              if (!Number.isNaN(parsed) && parsed >= 0) {
+                this.plugin.settings.autoTitleCooldownMinutes = parsed;
+                await this.plugin.saveSettings();
+              }
+            });
+        });
+    }
+
+    /* --- Usage Settings --- */
+    this.renderUsageSettings(containerEl);
+
+    /* --- History Settings --- */
+    containerEl.createEl('h3', { text: 'History' });
+
+    new Setting(containerEl)
+      .setName('Rename history')
+      .setDesc(
+        `${this.plugin.settings.renameHistory.length} recorded renames. Use the "Show title generation history" command to browse and undo them.`
+      )
+      .addButton((btn) => {
+        btn
+          .setButtonText('Clear history')
+          .setWarning()
+          .setDisabled(this.plugin.settings.renameHistory.length === 0)
+          .onClick(async () => {
+            await this.plugin.renameJournal.clear();
+            this.display();
+          });
+      });
   }
 
-  private renderProviderSettings(containerEl: HTMLElement): void {
-    const provider = this.plugin.settings.aiProvider;
-    const providerInfo = AI_PROVIDERS[provider];
+  private renderUsageSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Usage and Budget' });
 
-    // API Key input
-    if (providerInfo.requiresApiKey) {
-      const keyName = provider === 'openai' ? 'openAiApiKey' : `${provider}ApiKey` as keyof TitleGeneratorSettings;
-      let initialValue = this.plugin.settings[keyName] as string;
-      let currentValue = initialValue;
-      let textEl: any, cancelBtn: any, okBtn: any;
-      const apiKeySetting = new Setting(containerEl)
-        .setName(`${providerInfo.name} API Key`)
-        .setDesc(`Your ${providerInfo.name} API key.`);
-      apiKeySetting.addText((text) => {
-        textEl = text;
-        text.setPlaceholder('Enter API key')
-          .setValue(initialValue)
-          .onChange((value) => {
-            currentValue = value;
-            const changed = currentValue !== initialValue;
-            cancelBtn.setDisabled(!changed);
-            okBtn.setDisabled(!changed);
+    const tracker = this.plugin.usageTracker;
+    const today = tracker.getTotals('day');
+    const month = tracker.getTotals('month');
+    const describe = (totals: typeof today) =>
+      `${formatCost(totals.cost)} (${totals.requests} requests, ${(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens)`;
+    containerEl.createEl('p', {
+      text: `Today: ${describe(today)}. This month: ${describe(month)}.`,
+      cls: 'setting-item-description',
+    });
+
+    new Setting(containerEl)
+      .setName('Spending limit (USD)')
+      .setDesc('Title generation stops once this much has been spent in the period below. 0 means no limit.')
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('0')
+          .setValue(this.plugin.settings.budgetLimit.toString())
+          .onChange(async (value) => {
+            const parsed = parseFloat(value);
+            if (!Number.isNaN(parsed) && parsed >= 0) {
+              this.plugin.settings.budgetLimit = parsed;
+              await this.plugin.saveSettings();
+            }
           });
       });
-      apiKeySetting.addButton((btn) => {
-        cancelBtn = btn;
-        btn.setButtonText('Cancel')
-          .setDisabled(true)
-          .onClick(() => {
-            textEl.setValue(initialValue);
-            currentValue = initialValue;
-            cancelBtn.setDisabled(true);
-            okBtn.setDisabled(true);
+
+    new Setting(containerEl).setName('Limit period').addDropdown((dropdown) =>
+      dropdown
+        .addOption('day', 'Per day')
+        .addOption('month', 'Per month')
+        .setValue(this.plugin.settings.budgetPeriod)
+        .onChange(async (value) => {
+          this.plugin.settings.budgetPeriod = value as BudgetPeriod;
+          await this.plugin.saveSettings();
+        })
+    );
+
+    containerEl.createEl('h4', { text: 'Model prices' });
+    containerEl.createEl('p', {
+      text: 'US dollars per million input and output tokens. A model name also matches longer names (gpt-4o matches gpt-4o-2024-08-06); the longest match wins. Models without a price count as free.',
+      cls: 'setting-item-description',
+    });
+
+    const { modelPrices } = this.plugin.settings;
+    modelPrices.forEach((price, index) => {
+      const parsePrice = (value: string) => {
+        const parsed = parseFloat(value);
+        return !Number.isNaN(parsed) && parsed >= 0 ? parsed : null;
+      };
+      new Setting(containerEl)
+        .addText((text) =>
+          text
+            .setPlaceholder('Model name')
+            .setValue(price.model)
+            .onChange(async (value) => {
+              price.model = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) => {
+          text.inputEl.type = 'number';
+          text.inputEl.title = 'Input price per million tokens';
+          text.setValue(price.inputPerMillion.toString()).onChange(async (value) => {
+            const parsed = parsePrice(value);
+            if (parsed !== null) {
+              price.inputPerMillion = parsed;
+              await this.plugin.saveSettings();
+            }
           });
+        })
+        .addText((text) => {
+          text.inputEl.type = 'number';
+          text.inputEl.title = 'Output price per million tokens';
+          text.setValue(price.outputPerMillion.toString()).onChange(async (value) => {
+            const parsed = parsePrice(value);
+            if (parsed !== null) {
+              price.outputPerMillion = parsed;
+              await this.plugin.saveSettings();
+            }
+          });
+        })
+        .addExtraButton((btn) =>
+          btn
+            .setIcon('trash')
+            .setTooltip('Remove price')
+            .onClick(async () => {
+              modelPrices.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl)
+      .addButton((btn) =>
+        btn.setButtonText('Add price').onClick(async () => {
+          modelPrices.push({ model: '', inputPerMillion: 0, outputPerMillion: 0 });
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      )
+      .addButton((btn) =>
+        btn.setButtonText('Reset to defaults').onClick(async () => {
+          this.plugin.settings.modelPrices = USAGE_CONFIG.DEFAULT_PRICES.map((price) => ({ ...price }));
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    containerEl.createEl('h4', { text: 'Spend history' });
+    const cutoff = moment().subtract(USAGE_CONFIG.DISPLAYED_DAYS, 'days').format(USAGE_CONFIG.DATE_FORMAT);
+    const records = tracker.getRecords().filter((record) => record.date > cutoff);
+    if (records.length === 0) {
+      containerEl.createEl('p', {
+        text: `No usage recorded in the last ${USAGE_CONFIG.DISPLAYED_DAYS} days.`,
+        cls: 'setting-item-description',
       });
-      apiKeySetting.addButton((btn) => {
-        okBtn = btn;
-        btn.setButtonText('OK')
-          .setDisabled(true)
+    } else {
+      const table = containerEl.createDiv({ cls: UI_CONFIG.CSS_CLASSES.BATCH_TABLE }).createEl('table');
+      const header = table.createEl('tr');
+      ['Date', 'Provider', 'Model', 'Requests', 'Input tokens', 'Output tokens', 'Cost'].forEach((label) =>
+        header.createEl('th', { text: label })
+      );
+      records.forEach((record) => {
+        const row = table.createEl('tr');
+        row.createEl('td', { text: record.date });
+        row.createEl('td', { text: getProviderAdapter(record.provider).name });
+        row.createEl('td', { text: record.model });
+        row.createEl('td', { text: record.requests.toString() });
+        row.createEl('td', { text: record.inputTokens.toLocaleString() });
+        row.createEl('td', { text: record.outputTokens.toLocaleString() });
+        row.createEl('td', { text: formatCost(record.cost) });
+      });
+    }
+
+    new Setting(containerEl)
+      .setName('Usage history')
+      .setDesc(`Usage is kept for ${USAGE_CONFIG.HISTORY_DAYS} days.`)
+      .addButton((btn) =>
+        btn
+          .setButtonText('Clear usage history')
+          .setWarning()
+          .setDisabled(this.plugin.settings.usageHistory.length === 0)
           .onClick(async () => {
-            (this.plugin.settings as any)[keyName] = currentValue;
+            await tracker.clear();
+            this.display();
+          })
+      );
+  }
+
+  private renderProfileSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Profiles' });
+    containerEl.createEl('p', {
+      text: 'Profiles bundle a provider, model, prompts and title options. Rules below pick a profile per note; notes without a matching rule use the settings above.',
+      cls: 'setting-item-description',
+    });
+
+    const { profiles, profileRules } = this.plugin.settings;
+
+    profiles.forEach((profile) => this.renderProfile(containerEl, profile));
+
+    new Setting(containerEl).addButton((btn) =>
+      btn
+        .setButtonText('Add profile')
+        .setCta()
+        .onClick(async () => {
+          const profile = createProfileFromSettings(`Profile ${profiles.length + 1}`, this.plugin.settings);
+          profiles.push(profile);
+          this.expandedProfileId = profile.id;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+    );
+
+    containerEl.createEl('h4', { text: 'Profile rules' });
+    containerEl.createEl('p', {
+      text: 'Checked from top to bottom; the first matching rule wins. Folder rules include subfolders, tag rules include nested tags.',
+      cls: 'setting-item-description',
+    });
+
+    profileRules.forEach((rule, index) => {
+      const ruleSetting = new Setting(containerEl)
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('folder', 'Folder')
+            .addOption('tag', 'Tag')
+            .addOption('frontmatter', 'Frontmatter')
+            .setValue(rule.type)
+            .onChange(async (value) => {
+              rule.type = value as ProfileRuleType;
+              await this.plugin.saveSettings();
+              this.display(); // Show or hide the property name field
+            })
+        );
+
+      if (rule.type === 'frontmatter') {
+        ruleSetting.addText((text) =>
+          text
+            .setPlaceholder('Property')
+            .setValue(rule.key ?? '')
+            .onChange(async (value) => {
+              rule.key = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+      }
+
+      ruleSetting
+        .addText((text) =>
+          text
+            .setPlaceholder({ folder: 'Meetings', tag: 'literature', frontmatter: 'Value' }[rule.type])
+            .setValue(rule.value)
+            .onChange(async (value) => {
+              rule.value = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addDropdown((dropdown) => {
+          profiles.forEach((profile) => dropdown.addOption(profile.id, profile.name));
+          dropdown.setValue(rule.profileId).onChange(async (value) => {
+            rule.profileId = value;
             await this.plugin.saveSettings();
-            initialValue = currentValue;
-            cancelBtn.setDisabled(true);
-            okBtn.setDisabled(true);
           });
+        })
+        .addExtraButton((btn) =>
+          btn
+            .setIcon('trash')
+            .setTooltip('Remove rule')
+            .onClick(async () => {
+              profileRules.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((btn) =>
+      btn
+        .setButtonText('Add rule')
+        .setDisabled(profiles.length === 0)
+        .onClick(async () => {
+          profileRules.push({ type: 'folder', value: '', profileId: profiles[0].id });
+          await this.plugin.saveSettings();
+          this.display();
+        })
+    );
+  }
+
+  private renderProfile(containerEl: HTMLElement, profile: PromptProfile): void {
+    const detailsEl = containerEl.createEl('details');
+    detailsEl.open = this.expandedProfileId === profile.id;
+    const summaryEl = detailsEl.createEl('summary', { text: profile.name });
+    detailsEl.addEventListener('toggle', () => {
+      if (detailsEl.open) {
+        this.expandedProfileId = profile.id;
+      } else if (this.expandedProfileId === profile.id) {
+        this.expandedProfileId = null;
+      }
+    });
+
+    new Setting(detailsEl).setName('Name').addText((text) =>
+      text.setValue(profile.name).onChange(async (value) => {
+        profile.name = value.trim() || profile.name;
+        summaryEl.setText(profile.name);
+        await this.plugin.saveSettings();
+      })
+    );
+
+    new Setting(detailsEl).setName('AI Provider').addDropdown((dropdown) => {
+      getProviderIds().forEach((id) => dropdown.addOption(id, getProviderAdapter(id).name));
+      dropdown.setValue(profile.aiProvider).onChange(async (value) => {
+        profile.aiProvider = value as AIProvider;
+        profile.model = '';
+        await this.plugin.saveSettings();
+        this.display(); // Refresh the model placeholder
+      });
+    });
+
+    const globalModel = this.plugin.settings[getProviderAdapter(profile.aiProvider).modelField] as string;
+    new Setting(detailsEl)
+      .setName('Model')
+      .setDesc('Leave empty to use the model selected for this provider above.')
+      .addText((text) =>
+        text
+          .setPlaceholder(globalModel || 'Model name')
+          .setValue(profile.model)
+          .onChange(async (value) => {
+            profile.model = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(detailsEl).setName('Temperature').addSlider((slider) =>
+      slider
+        .setLimits(0, 1, 0.01)
+        .setValue(profile.temperature)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          profile.temperature = value;
+          await this.plugin.saveSettings();
+        })
+    );
+
+    new Setting(detailsEl).setName('Max Title Length').addText((text) => {
+      text.inputEl.type = 'number';
+      text.setValue(profile.maxTitleLength.toString()).onChange(async (value) => {
+        const parsed = parseInt(value, 10);
+        if (!Number.isNaN(parsed)) {
+          profile.maxTitleLength = parsed;
+          await this.plugin.saveSettings();
+        }
       });
+    });
+
+    new Setting(detailsEl).setName('Title casing').addDropdown((dropdown) => {
+      Object.entries(TITLE_CASING_OPTIONS).forEach(([value, label]) => dropdown.addOption(value, label));
+      dropdown.setValue(profile.titleCasing).onChange(async (value) => {
+        profile.titleCasing = value as TitleCasing;
+        await this.plugin.saveSettings();
+      });
+    });
+
+    new Setting(detailsEl).setName('Preserve acronyms').addToggle((toggle) =>
+      toggle.setValue(profile.preserveAcronyms).onChange(async (value) => {
+        profile.preserveAcronyms = value;
+        await this.plugin.saveSettings();
+      })
+    );
+
+    const templateSetting = new Setting(detailsEl).setName('Title template').addText((text) =>
+      text
+        .setPlaceholder('{title}')
+        .setValue(profile.titleTemplate)
+        .onChange(async (value) => {
+          if (!this.showTitleTemplateIssues(templateSetting, value)) {
+            return;
+          }
+          profile.titleTemplate = value;
+          await this.plugin.saveSettings();
+        })
+    );
+    this.showTitleTemplateIssues(templateSetting, profile.titleTemplate);
+
+    const promptDesc = 'Supports the same variables and conditionals as the global initial prompt.';
+    const promptSetting = new Setting(detailsEl)
+      .setName('Initial Prompt')
+      .setDesc(promptDesc)
+      .addTextArea((ta) =>
+        ta.setValue(profile.customPrompt).onChange(async (value) => {
+          profile.customPrompt = value;
+          this.showPromptIssues(promptSetting, promptDesc, value, false);
+          await this.plugin.saveSettings();
+        })
+      );
+    this.showPromptIssues(promptSetting, promptDesc, profile.customPrompt, false);
+
+    const refineDesc = 'Must contain {max_length} and {title}.';
+    const refineSetting = new Setting(detailsEl)
+      .setName('Refinement Prompt')
+      .setDesc(refineDesc)
+      .addTextArea((ta) =>
+        ta.setValue(profile.refinePrompt).onChange(async (value) => {
+          profile.refinePrompt = value;
+          this.showPromptIssues(refineSetting, refineDesc, value, true);
+          await this.plugin.saveSettings();
+        })
+      );
+    this.showPromptIssues(refineSetting, refineDesc, profile.refinePrompt, true);
+
+    new Setting(detailsEl).addButton((btn) =>
+      btn
+        .setButtonText('Delete profile')
+        .setWarning()
+        .onClick(async () => {
+          const { settings } = this.plugin;
+          settings.profiles = settings.profiles.filter((p) => p.id !== profile.id);
+          settings.profileRules = settings.profileRules.filter((r) => r.profileId !== profile.id);
+          await this.plugin.saveSettings();
+          this.display();
+        })
+    );
+  }
+
+  /**
+   * Append template errors and unknown variables to a prompt setting's description
+   */
+  private showPromptIssues(
+    setting: Setting,
+    description: string,
+    prompt: string,
+    isRefinementPrompt: boolean
+  ): void {
+    const validation = getValidationService().validatePrompt(prompt, isRefinementPrompt);
+    setting.setDesc(
+      validation.valid ? description : `${description} Error: ${validation.errors.join(' ')}`
+    );
+  }
+
+  /**
+   * Show template errors, or an example title, in the setting description
+   * @returns Whether the template is valid
+   */
+  private showTitleTemplateIssues(setting: Setting, template: string): boolean {
+    const description =
+      'Text added around generated titles in the filename, e.g. {date:YYYY-MM-DD} - {title}. Supports the prompt variables and conditionals.';
+    const validation = getValidationService().validateTitleTemplate(template);
+    if (!validation.valid) {
+      setting.setDesc(`${description} Error: ${validation.errors.join(' ')}`);
+      return false;
     }
 
+    const example = applyTitleTemplate(
+      template,
+      'Example title',
+      createPromptVariables(createPromptContext(this.app, this.app.workspace.getActiveFile(), this.plugin.settings), this.plugin.settings)
+    );
+    setting.setDesc(`${description} Example: ${example}`);
+    return true;
+  }
+
+  private parseFolderList(value: string): string[] {
+    return value
+      .split('\n')
+      .map((folder) => folder.trim().replace(/^\/+|\/+$/g, ''))
+      .filter((folder) => folder.length > 0);
+  }
+
+  private renderFallbackSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: 'Fallback providers' });
+    containerEl.createEl('p', {
+      text: 'Tried from top to bottom when the provider above fails. Providers without an API key or model are skipped.',
+      cls: 'setting-item-description',
+    });
+
+    const { fallbackProviders, fallbackTriggers } = this.plugin.settings;
+
+    fallbackProviders.forEach((provider, index) => {
+      new Setting(containerEl)
+        .setName(`${index + 1}. ${getProviderAdapter(provider).name}`)
+        .setDesc(
+          this.plugin.aiService.getConfigurationProblem({ ...this.plugin.settings, aiProvider: provider }) ?? ''
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon('arrow-up')
+            .setTooltip('Move up')
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              fallbackProviders.splice(index - 1, 0, ...fallbackProviders.splice(index, 1));
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon('trash')
+            .setTooltip('Remove fallback')
+            .onClick(async () => {
+              fallbackProviders.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    const available = getProviderIds().filter(
+      (id) => id !== this.plugin.settings.aiProvider && !fallbackProviders.includes(id)
+    );
+    if (available.length > 0) {
+      new Setting(containerEl).setName('Add fallback').addDropdown((dropdown) => {
+        dropdown.addOption('', 'Choose a provider');
+        available.forEach((id) => dropdown.addOption(id, getProviderAdapter(id).name));
+        dropdown.onChange(async (value) => {
+          if (!value) return;
+          fallbackProviders.push(value as AIProvider);
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+    }
+
+    const triggerLabels: Record<FallbackTrigger, [string, string]> = {
+      'rate-limit': ['Rate limits', 'The provider reports too many requests or an exhausted quota.'],
+      'server-error': ['Server errors', 'The provider returns a 5xx error.'],
+      timeout: ['Timeouts', 'The request takes longer than the timeout.'],
+      network: ['Network errors', 'The provider cannot be reached.'],
+      auth: ['Rejected API keys', 'The provider rejects the API key or denies access.'],
+    };
+    (Object.keys(triggerLabels) as FallbackTrigger[]).forEach((trigger) => {
+      const [name, desc] = triggerLabels[trigger];
+      new Setting(containerEl)
+        .setName(`Fall back on ${name.toLowerCase()}`)
+        .setDesc(desc)
+        .addToggle((toggle) =>
+          toggle.setValue(fallbackTriggers.includes(trigger)).onChange(async (value) => {
+            this.plugin.settings.fallbackTriggers = value
+              ? [...fallbackTriggers.filter((item) => item !== trigger), trigger]
+              : this.plugin.settings.fallbackTriggers.filter((item) => item !== trigger);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+        );
+    });
+  }
+
+  private renderProviderSettings(containerEl: HTMLElement): void {
+    const provider = this.plugin.settings.aiProvider;
+    const providerInfo = getProviderAdapter(provider);
+
+    // Server URL input for self-hosted providers
+    if (providerInfo.baseUrlField) {
+      const urlName = providerInfo.baseUrlField;
+      const urlDesc =
+        'Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama or http://localhost:1234/v1 for LM Studio.';
+      const urlSetting = new Setting(containerEl)
+        .setName('Server URL')
+        .setDesc(urlDesc);
+      urlSetting.addText((text) => {
+        text
+          .setPlaceholder(API_CONFIG.LOCAL.DEFAULT_BASE_URL)
+          .setValue(this.plugin.settings[urlName] as string)
+          .onChange(async (value) => {
+            const validation = getValidationService().validateBaseUrl(value);
+            if (!validation.valid) {
+              urlSetting.setDesc(`${urlDesc} Error: ${validation.errors[0]}`);
+              return;
+            }
+            urlSetting.setDesc(urlDesc);
+            (this.plugin.settings as any)[urlName] = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+    }
+
+    new Setting(containerEl)
+      .setName('API key storage')
+      .setDesc(
+        'Where API keys are saved. "This device only" keeps them out of the plugin data that Obsidian Sync and other sync tools copy, so each device needs its own keys.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('plugin', 'Plugin data (synced)')
+          .addOption('device', 'This device only')
+          .setValue(this.plugin.settings.apiKeyStorage)
+          .onChange(async (value) => {
+            this.plugin.settings.apiKeyStorage = value as ApiKeyStorage;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // API Key input
+    const keyName = providerInfo.apiKeyField;
+    let initialValue = this.plugin.settings[keyName] as string;
+    let currentValue = initialValue;
+    let textEl: any; let cancelBtn: any; let okBtn: any;
+    const apiKeySetting = new Setting(containerEl)
+      .setName(`${providerInfo.name} API Key`)
+      .setDesc(
+        `${
+          providerInfo.requiresApiKey
+            ? `Your ${providerInfo.name} API key.`
+            : 'Optional. Only needed if your server requires an API key.'
+        } On desktop, enter env:NAME to read it from an environment variable.`
+      );
+    apiKeySetting.addText((text) => {
+      textEl = text;
+      text.setPlaceholder('Enter API key')
+        .setValue(initialValue)
+        .onChange((value) => {
+          currentValue = value;
+          const changed = currentValue !== initialValue;
+          cancelBtn.setDisabled(!changed);
+          okBtn.setDisabled(!changed);
+        });
+    });
+    apiKeySetting.addButton((btn) => {
+      cancelBtn = btn;
+      btn.setButtonText('Cancel')
+        .setDisabled(true)
+        .onClick(() => {
+          textEl.setValue(initialValue);
+          currentValue = initialValue;
+          cancelBtn.setDisabled(true);
+          okBtn.setDisabled(true);
+        });
+    });
+    apiKeySetting.addButton((btn) => {
+      okBtn = btn;
+      btn.setButtonText('OK')
+        .setDisabled(true)
+        .onClick(async () => {
+          (this.plugin.settings as any)[keyName] = currentValue;
+          await this.plugin.saveSettings();
+          initialValue = currentValue;
+          cancelBtn.setDisabled(true);
+          okBtn.setDisabled(true);
+        });
+    });
+
+    new Setting(containerEl)
+      .setName('Requests per minute')
+      .setDesc(
+        `Maximum ${providerInfo.name} requests per minute across all title generation. 0 means unlimited.`
+      )
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text
+          .setValue((this.plugin.settings.requestsPerMinute[provider] ?? 0).toString())
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            if (!Number.isNaN(parsed) && parsed >= 0) {
+              this.plugin.settings.requestsPerMinute[provider] = parsed;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
     // Model selection with reload button
     this.renderModelSelection(containerEl, provider, providerInfo);
+
+    new Setting(containerEl)
+      .setName('Test connection')
+      .setDesc(`Check the ${providerInfo.name} API key and model with a short test request.`)
+      .addButton((btn) => btn.setButtonText('Test').onClick(() => this.plugin.testConnection(provider)));
   }
 
   private async renderModelSelection(
     containerEl: HTMLElement,
     provider: AIProvider,
-    providerInfo: { name: string; requiresApiKey: boolean }
+    providerInfo: ProviderAdapter
   ): Promise<void> {
-    let modelName: keyof TitleGeneratorSettings;
-    switch (provider) {
-      case 'openai':
-        modelName = 'openAiModel';
-        break;
-      case 'anthropic':
-        modelName = 'anthropicModel';
-        break;
-      case 'google':
-        modelName = 'googleModel';
-        break;
-      default:
-        return; // Should not happen
-    }
-
-    const currentModel = this.plugin.settings[modelName] as string;
     const isLoading = this.modelService.isLoading(provider);
     const cachedInfo = this.modelService.getCachedInfo(provider);
 
@@ -414,7 +1526,7 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
             // Re-render the entire settings tab to reflect the new models
             this.display();
           } catch (error) {
-            console.error('Failed to reload models:', error);
+            getLogger().error('Failed to reload models', error);
           } finally {
             btn.setDisabled(false);
           }
@@ -441,20 +1553,7 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
     containerEl: HTMLElement,
     provider: AIProvider
   ): void {
-    let modelName: keyof TitleGeneratorSettings;
-    switch (provider) {
-      case 'openai':
-        modelName = 'openAiModel';
-        break;
-      case 'anthropic':
-        modelName = 'anthropicModel';
-        break;
-      case 'google':
-        modelName = 'googleModel';
-        break;
-      default:
-        return;
-    }
+    const modelName = getProviderAdapter(provider).modelField;
     const currentModel = this.plugin.settings[modelName] as string;
     const isLoading = this.modelService.isLoading(provider);
 
@@ -514,20 +1613,7 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
       await this.modelService.getModels(provider)
     ).filter((m) => m.toLowerCase().includes(filter.toLowerCase()));
 
-    let modelName: keyof TitleGeneratorSettings;
-    switch (provider) {
-      case 'openai':
-        modelName = 'openAiModel';
-        break;
-      case 'anthropic':
-        modelName = 'anthropicModel';
-        break;
-      case 'google':
-        modelName = 'googleModel';
-        break;
-      default:
-        return; // Should not happen
-    }
+    const modelName = getProviderAdapter(provider).modelField;
 
     // Ensure the currently saved model is always in the list if it matches the filter,
     // or if there is no filter.
@@ -586,18 +1672,10 @@ export class TitleGeneratorSettingTab extends PluginSettingTab {
   }
 
   private hasValidConfiguration(provider: AIProvider): boolean {
-    const settings = this.plugin.settings;
-
-    switch (provider) {
-      case 'openai':
-        return !!settings.openAiApiKey.trim();
-      case 'anthropic':
-        return !!settings.anthropicApiKey.trim();
-      case 'google':
-        return !!settings.googleApiKey.trim();
-      default:
-        return false;
-    }
+    return (
+      !getProviderAdapter(provider).requiresApiKey ||
+      !!getProviderApiKey(this.plugin.settings, provider)
+    );
   }
 
   
@@ -0,0 +1,166 @@
+/**
+ * Streaming HTTP layer for provider requests
+ * requestUrl buffers the whole response, so streamed completions go through
+ * fetch and are read as server-sent events
+ */
+
+import { API_CONFIG } from './constants';
+import { getErrorHandler, TitleGeneratorError } from './errorHandler';
+import { getLogger } from './logger';
+import { getProviderAdapter } from './providers';
+import type { AIProvider, ApiRequestConfig } from './types';
+
+/**
+ * Send a streaming provider request and pass each event's JSON payload to
+ * `onEvent`. Streams are not retried, since part of the answer may already
+ * have been shown.
+ * @param signal Aborting it rejects with a CANCELLED error
+ * @throws TitleGeneratorError for HTTP errors, timeouts and network failures
+ */
+export async function streamApiRequest(
+  request: ApiRequestConfig,
+  provider: AIProvider,
+  onEvent: (event: any) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const errorHandler = getErrorHandler();
+  const adapter = getProviderAdapter(provider);
+  const providerName = adapter.name;
+  const timeout = request.timeout ?? API_CONFIG.TIMEOUT;
+
+  if (signal?.aborted) {
+    throw errorHandler.createCancelledError(provider);
+  }
+
+  // The timeout applies to the gap between chunks, so long answers that keep
+  // streaming are not cut off
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer = 0;
+  const resetTimer = () => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+  };
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+
+  try {
+    getLogger().logApiRequest(
+      request.url,
+      request.method,
+      adapter.requiresApiKey
+    );
+    resetTimer();
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: controller.signal,
+    });
+    getLogger().logApiResponse(response.status, providerName, response.ok);
+
+    if (!response.ok) {
+      throw errorHandler.createHttpError(
+        response.status,
+        await response.text(),
+        provider,
+        providerName
+      );
+    }
+    if (!response.body) {
+      throw errorHandler.createNetworkError(
+        `${providerName} returned an empty stream`,
+        provider
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      resetTimer();
+      const { done, value } = await reader.read();
+      if (controller.signal.aborted) {
+        // Chunks that were already buffered can still arrive after an abort
+        reader.cancel().catch(() => undefined);
+        throw new DOMException('The stream was aborted', 'AbortError');
+      }
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events are separated by a blank line
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : (events.pop() ?? '');
+      events.forEach((event) => {
+        const data = readEventData(event);
+        if (data && data !== '[DONE]') {
+          const payload = parseEventData(data, provider, providerName);
+          if (payload !== undefined) {
+            onEvent(payload);
+          }
+        }
+      });
+
+      if (done) {
+        return;
+      }
+    }
+  } catch (error) {
+    // Errors raised while parsing events are passed through unchanged
+    const isTransportError =
+      error instanceof TypeError || (error as Error)?.name === 'AbortError';
+    if (error instanceof TitleGeneratorError || !isTransportError) {
+      throw error;
+    }
+    if (timedOut) {
+      throw errorHandler.createTimeoutError(providerName, timeout, provider);
+    }
+    if (signal?.aborted) {
+      throw errorHandler.createCancelledError(provider);
+    }
+    throw errorHandler.createNetworkError(
+      (error as Error)?.message ?? String(error),
+      provider
+    );
+  } finally {
+    window.clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * Join the `data:` lines of one server-sent event
+ */
+function readEventData(event: string): string {
+  return event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trim())
+    .join('\n');
+}
+
+/**
+ * Parse the JSON payload of an event. Keep-alive messages that are not JSON
+ * are skipped.
+ * @throws TitleGeneratorError if a JSON payload is malformed or cut off
+ */
+function parseEventData(
+  data: string,
+  provider: AIProvider,
+  providerName: string
+): unknown {
+  if (!/^[[{]/.test(data)) {
+    getLogger().debug(`Skipping ${providerName} stream message: ${data}`);
+    return undefined;
+  }
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw getErrorHandler().createApiError(
+      `${providerName} stream sent a malformed event: ${(error as Error).message}`,
+      provider
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { App, Modal } from 'obsidian';
+
+import { UI_CONFIG } from './constants';
+import type { UIElements } from './types';
+
+/**
+ * Modal that lists generated title candidates next to the current filename.
+ * The user can pick one, edit it inline or ask for new suggestions; nothing is
+ * renamed until the choice is confirmed.
+ */
+export class TitleChooserModal extends Modal {
+  private currentName: string;
+  private candidates: string[];
+  private regenerate: () => Promise<string[]>;
+  private onChoose: (title: string | null) => void;
+  private elements: UIElements;
+  private selectedIndex = 0;
+  private settled = false;
+
+  constructor(
+    app: App,
+    currentName: string,
+    candidates: string[],
+    regenerate: () => Promise<string[]>,
+    onChoose: (title: string | null) => void
+  ) {
+    super(app);
+    this.currentName = currentName;
+    this.candidates = candidates;
+    this.regenerate = regenerate;
+    this.onChoose = onChoose;
+  }
+
+  /**
+   * Open the modal and resolve with the confirmed title, or null if cancelled
+   */
+  static choose(
+    app: App,
+    currentName: string,
+    candidates: string[],
+    regenerate: () => Promise<string[]>
+  ): Promise<string | null> {
+    return new Promise((resolve) => {
+      new TitleChooserModal(
+        app,
+        currentName,
+        candidates,
+        regenerate,
+        resolve
+      ).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Choose a title');
+
+    contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_CURRENT,
+      text: `Current name: ${this.currentName}`,
+    });
+
+    const dropdown = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_LIST,
+    });
+
+    const textInput = contentEl.createEl('input', {
+      type: 'text',
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_INPUT,
+    });
+    textInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.confirm();
+      }
+    });
+    textInput.addEventListener('input', () => {
+      this.elements.saveButton.disabled = !textInput.value.trim();
+    });
+
+    const buttonsEl = contentEl.createDiv({
+      cls: UI_CONFIG.CSS_CLASSES.CHOOSER_BUTTONS,
+    });
+    const refreshButton = buttonsEl.createEl('button', { text: 'Regenerate' });
+    refreshButton.addEventListener('click', () => this.refresh());
+    const cancelButton = buttonsEl.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+    const saveButton = buttonsEl.createEl('button', {
+      text: 'Use title',
+      cls: 'mod-cta',
+    });
+    saveButton.addEventListener('click', () => this.confirm());
+
+    this.elements = {
+      textInput,
+      dropdown,
+      saveButton,
+      cancelButton,
+      refreshButton,
+    };
+
+    this.renderCandidates();
+    textInput.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.settle(null);
+  }
+
+  /**
+   * Render the candidate list and copy the selection into the text input
+   */
+  private renderCandidates(): void {
+    const { dropdown, textInput, saveButton } = this.elements;
+    dropdown.empty();
+
+    if (this.candidates.length === 0) {
+      dropdown.createDiv({
+        text: 'No suggestions. Type a title or regenerate.',
+      });
+    }
+
+    this.candidates.forEach((candidate, index) => {
+      const itemEl = dropdown.createDiv({
+        text: candidate,
+        cls: UI_CONFIG.CSS_CLASSES.CHOOSER_ITEM,
+      });
+      if (index === this.selectedIndex) {
+        itemEl.addClass(UI_CONFIG.CSS_CLASSES.SEARCH_ITEM_SELECTED);
+      }
+      itemEl.addEventListener('click', () => {
+        this.selectedIndex = index;
+        this.renderCandidates();
+      });
+      itemEl.addEventListener('dblclick', () => {
+        this.selectedIndex = index;
+        this.renderCandidates();
+        this.confirm();
+      });
+    });
+
+    textInput.value = this.candidates[this.selectedIndex] ?? '';
+    saveButton.disabled = !textInput.value.trim();
+  }
+
+  /**
+   * Replace the candidates with a fresh set from the AI
+   */
+  private async refresh(): Promise<void> {
+    const { refreshButton } = this.elements;
+    refreshButton.disabled = true;
+    refreshButton.setText('Generating...');
+
+    try {
+      const candidates = await this.regenerate();
+      if (candidates.length > 0) {
+        this.candidates = candidates;
+        this.selectedIndex = 0;
+      }
+      this.renderCandidates();
+    } finally {
+      refreshButton.disabled = false;
+      refreshButton.setText('Regenerate');
+    }
+  }
+
+  private confirm(): void {
+    const title = this.elements.textInput.value.trim();
+    if (!title) {
+      return;
+    }
+    this.settle(title);
+    this.close();
+  }
+
+  /**
+   * Report the outcome exactly once, whichever way the modal is closed
+   */
+  private settle(title: string | null): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    this.onChoose(title);
+  }
+}
@@ -0,0 +1,148 @@
+import { TITLE_CONFIG } from './constants';
+import { renderTemplate } from './promptTemplate';
+import type { TitleCasing } from './types';
+
+/**
+ * Change the casing of a generated title. Title and sentence case keep words
+ * with inner capitals such as "iPhone" or "macOS" as they are.
+ * @param preserveAcronyms Keep all-caps words such as "API" or "NASA" as they are
+ */
+export function applyTitleCasing(
+  title: string,
+  casing: TitleCasing,
+  preserveAcronyms: boolean
+): string {
+  const keep = (word: string) => preserveAcronyms && isAcronym(word);
+  const lower = (word: string) => (keep(word) ? word : word.toLowerCase());
+  const keepCased = (word: string) => keep(word) || hasInnerCapital(word);
+
+  switch (casing) {
+    case 'lower':
+      return mapWords(title, lower);
+
+    case 'title': {
+      const words = title.split(/(\s+)/);
+      const lastWordIndex = findLastWordIndex(words);
+      let startsPhrase = true;
+      return words
+        .map((word, index) => {
+          if (/^\s*$/.test(word)) {
+            return word;
+          }
+          const bare = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+          const isStopWord = TITLE_CONFIG.STOP_WORDS.includes(
+            bare.toLowerCase()
+          );
+          const cased =
+            isStopWord && !startsPhrase && index !== lastWordIndex
+              ? lower(word)
+              : word
+                  .split('-')
+                  .map((part) => (keepCased(part) ? part : capitalize(part)))
+                  .join('-');
+          // A word after a colon or dash starts a new phrase
+          startsPhrase = /[:–—-]$/.test(word);
+          return cased;
+        })
+        .join('');
+    }
+
+    case 'sentence': {
+      let first = true;
+      return mapWords(title, (word) => {
+        if (keepCased(word)) {
+          first = false;
+          return word;
+        }
+        const cased = first ? capitalize(word) : word.toLowerCase();
+        if (/[\p{L}\p{N}]/u.test(word)) {
+          first = false;
+        }
+        return cased;
+      });
+    }
+
+    // Identifiers are lower case throughout, acronyms included
+    case 'kebab':
+      return joinWords(title, '-', (word) => word.toLowerCase());
+
+    case 'snake':
+      return joinWords(title, '_', (word) => word.toLowerCase());
+
+    default:
+      return title;
+  }
+}
+
+/**
+ * Wrap a title in a prefix/suffix template such as
+ * `{date:YYYY-MM-DD} - {title}`
+ * @param lookup Template variables; `title` is provided here
+ */
+export function applyTitleTemplate(
+  template: string,
+  title: string,
+  lookup: (name: string) => string | undefined
+): string {
+  if (!template.trim() || template.trim() === '{title}') {
+    return title;
+  }
+  return renderTemplate(template, (name) =>
+    name === 'title' ? title : lookup(name)
+  ).trim();
+}
+
+function isAcronym(word: string): boolean {
+  const letters = word.replace(/[^\p{L}\p{N}]/gu, '');
+  return (
+    /\p{L}/u.test(letters) &&
+    letters.length >= 2 &&
+    letters === letters.toUpperCase() &&
+    letters !== letters.toLowerCase()
+  );
+}
+
+/**
+ * Whether a word has a capital after a lower-case letter, like "iPhone"
+ */
+function hasInnerCapital(word: string): boolean {
+  return /\p{Ll}\p{Lu}/u.test(word);
+}
+
+function capitalize(word: string): string {
+  const lower = word.toLowerCase();
+  const index = lower.search(/\p{L}/u);
+  return index === -1
+    ? lower
+    : lower.slice(0, index) +
+        lower[index].toUpperCase() +
+        lower.slice(index + 1);
+}
+
+function mapWords(title: string, map: (word: string) => string): string {
+  return title
+    .split(/(\s+)/)
+    .map((word) => (/^\s*$/.test(word) ? word : map(word)))
+    .join('');
+}
+
+function joinWords(
+  title: string,
+  separator: string,
+  map: (word: string) => string
+): string {
+  return title
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0)
+    .map(map)
+    .join(separator);
+}
+
+function findLastWordIndex(parts: string[]): number {
+  for (let index = parts.length - 1; index >= 0; index--) {
+    if (!/^\s*$/.test(parts[index])) {
+      return index;
+    }
+  }
+  return -1;
+}
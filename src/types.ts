@@ -2,10 +2,27 @@
  * Enhanced TypeScript types for the Title Generator plugin
  */
 
+import type { TFile } from 'obsidian';
+
+import type { PROVIDER_ADAPTERS } from './providers';
+
 /**
  * Defines the available AI providers.
+ * Derived from the provider registry so new backends only need registering there.
+ */
+export type AIProvider = keyof typeof PROVIDER_ADAPTERS;
+
+/**
+ * Optional features a provider backend supports
  */
-export type AIProvider = 'openai' | 'anthropic' | 'google';
+export interface ProviderCapabilities {
+  temperature: boolean;
+  modelListing: boolean;
+  /** Can constrain answers to a JSON schema (JSON mode, tool use) */
+  structuredOutput: boolean;
+  /** Can stream answers as server-sent events */
+  streaming: boolean;
+}
 
 /**
  * Provider configuration interface
@@ -14,11 +31,92 @@ export interface ProviderConfig {
   name: string;
   apiKeyField: keyof TitleGeneratorSettings;
   modelField: keyof TitleGeneratorSettings;
+  baseUrlField?: keyof TitleGeneratorSettings;
   requiresApiKey: boolean;
-  supportsTemperature: boolean;
+  capabilities: ProviderCapabilities;
   defaultModels: string[];
 }
 
+/**
+ * Adapter that encapsulates everything specific to one AI backend.
+ * Request builders and parsers are pure so they can be exercised against
+ * recorded responses without Obsidian.
+ */
+export interface ProviderAdapter extends ProviderConfig {
+  id: string;
+
+  /** Build the HTTP request for a single-prompt completion */
+  buildChatRequest(prompt: string, settings: TitleGeneratorSettings): ApiRequestConfig;
+
+  /** Extract the generated text from a completion response */
+  parseChatResponse(response: any): string;
+
+  /**
+   * Build a completion request whose answer must match a JSON schema.
+   * Only present when `capabilities.structuredOutput` is set.
+   */
+  buildStructuredRequest?(
+    prompt: string,
+    settings: TitleGeneratorSettings,
+    schema: JsonSchema
+  ): ApiRequestConfig;
+
+  /** Extract the JSON value from a structured response, or undefined if there is none */
+  parseStructuredResponse?(response: any): unknown;
+
+  /**
+   * Build a completion request answered with server-sent events.
+   * Only present when `capabilities.streaming` is set.
+   */
+  buildStreamRequest?(prompt: string, settings: TitleGeneratorSettings): ApiRequestConfig;
+
+  /** Extract the text added by one server-sent event */
+  parseStreamEvent?(event: any): string;
+
+  /**
+   * Extract token counts from a completion response or stream event.
+   * Stream events may report only one of the two counts.
+   */
+  parseUsage(response: any): TokenUsage | undefined;
+
+  /** Build the HTTP request that lists available models */
+  buildModelsRequest(settings: TitleGeneratorSettings): ApiRequestConfig;
+
+  /** Extract model identifiers from a model list response */
+  parseModelsResponse(response: any): string[];
+
+  /** Return warnings for keys that do not look like this provider's keys */
+  validateApiKey(apiKey: string): string[];
+
+  /** Return warnings for model names that do not look like this provider's models */
+  validateModelName(modelName: string): string[];
+
+  /** Return errors describing why a completion response is malformed */
+  validateResponse(response: any): string[];
+}
+
+/**
+ * JSON Schema object used to request structured output
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/**
+ * Structured answer requested from providers that support JSON output
+ */
+export interface TitleResponse {
+  title: string;
+  alternatives: string[];
+  /** Language of the note as reported by the model, may be empty */
+  language: string;
+}
+
 /**
  * Cached model information for a provider
  */
@@ -37,6 +135,8 @@ export interface ApiRequestConfig {
   headers: Record<string, string>;
   body?: string;
   timeout?: number;
+  /** Retries for transient failures; defaults to API_CONFIG.MAX_RETRIES */
+  retries?: number;
 }
 
 /**
@@ -62,8 +162,10 @@ export interface OpenAIResponse {
  */
 export interface AnthropicResponse {
   content: Array<{
-    text: string;
     type: string;
+    text?: string;
+    /** Tool arguments for `tool_use` blocks */
+    input?: unknown;
   }>;
   stop_reason: string;
   usage?: {
@@ -88,6 +190,12 @@ export interface GoogleResponse {
       probability: string;
     }>;
   }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
 }
 
 /**
@@ -126,6 +234,195 @@ export interface GoogleModelsResponse {
   }>;
 }
 
+/**
+ * Note details available to prompt templates
+ */
+export interface PromptContext {
+  filename: string;
+  folder: string;
+  tags: string[];
+  frontmatter: Record<string, unknown>;
+  language: string;
+  existingTitlesInFolder: string[];
+}
+
+/**
+ * Per-call options for title generation
+ */
+export interface TitleRequestOptions {
+  /** Note details for prompt template variables */
+  context?: PromptContext;
+  /** Profile overriding the global provider, model and prompt settings */
+  profile?: PromptProfile;
+  /** Receives the title as it streams in, when streaming is enabled */
+  onPartialTitle?: (partialTitle: string) => void;
+  /** Called before each refinement of a title that is too long */
+  onRefine?: (attempt: number) => void;
+  /** Stops generation; a cancelled request throws a CANCELLED error */
+  signal?: AbortSignal;
+}
+
+/**
+ * A named bundle of generation settings, e.g. for meeting or literature notes
+ */
+export interface PromptProfile {
+  id: string;
+  name: string;
+  aiProvider: AIProvider;
+  /** Model for `aiProvider`; empty uses the provider's global model */
+  model: string;
+  temperature: number;
+  customPrompt: string;
+  refinePrompt: string;
+  maxTitleLength: number;
+  titleCasing: TitleCasing;
+  preserveAcronyms: boolean;
+  titleTemplate: string;
+}
+
+/**
+ * Tokens a provider reports for one request
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Price of a model in US dollars per million tokens. `model` matches the
+ * model name exactly or as a prefix; the longest match wins.
+ */
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Running usage totals for one provider and model on one day
+ */
+export interface UsageRecord {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  provider: AIProvider;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Cost in US dollars, using the prices at the time of each request */
+  cost: number;
+}
+
+/**
+ * Kinds of failure that make generation move on to the next fallback provider
+ */
+export type FallbackTrigger =
+  | 'rate-limit'
+  | 'server-error'
+  | 'timeout'
+  | 'network'
+  | 'auth';
+
+/**
+ * Provider and model that produced a title
+ */
+export interface TitleSource {
+  provider: AIProvider;
+  model: string;
+}
+
+/**
+ * A generated title and where it came from
+ */
+export interface TitleResult extends TitleSource {
+  title: string;
+}
+
+/**
+ * Where API keys are saved: in the synced plugin data, or on this device only
+ */
+export type ApiKeyStorage = 'plugin' | 'device';
+
+/**
+ * Period a spending limit applies to
+ */
+export type BudgetPeriod = 'day' | 'month';
+
+/**
+ * Outcome of one step of a connection test
+ */
+export type ConnectionCheckStatus = 'passed' | 'warning' | 'failed' | 'skipped';
+
+/**
+ * One step of a connection test, e.g. the API key or the test completion
+ */
+export interface ConnectionCheck {
+  name: string;
+  status: ConnectionCheckStatus;
+  message: string;
+  /** What the user can do about a failure */
+  hint?: string;
+  latencyMs?: number;
+}
+
+/**
+ * Result of testing the connection to a provider and its selected model
+ */
+export interface ConnectionTestResult {
+  provider: AIProvider;
+  model: string;
+  checks: ConnectionCheck[];
+}
+
+/**
+ * Lowest severity that is logged; `off` disables logging
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'off';
+
+/**
+ * A message kept in the logger's in-memory buffer
+ */
+export interface LogEntry {
+  timestamp: number;
+  level: Exclude<LogLevel, 'off'>;
+  message: string;
+  /** Redacted log arguments, serialized when the message was logged */
+  details: string[];
+}
+
+/**
+ * Which part of a long note is sent to the AI
+ */
+export type ContentSelection = 'beginning' | 'sample';
+
+/**
+ * Casing applied to generated titles
+ */
+export type TitleCasing =
+  | 'none'
+  | 'lower'
+  | 'title'
+  | 'sentence'
+  | 'kebab'
+  | 'snake';
+
+/**
+ * What a profile rule matches on
+ */
+export type ProfileRuleType = 'folder' | 'tag' | 'frontmatter';
+
+/**
+ * Maps notes to a profile. Rules are checked in order; the first match wins.
+ */
+export interface ProfileRule {
+  type: ProfileRuleType;
+  /** Folder path, tag (without #) or frontmatter value */
+  value: string;
+  /** Frontmatter property name, for 'frontmatter' rules */
+  key?: string;
+  profileId: string;
+}
+
 /**
  * Title generation options
  */
@@ -157,6 +454,24 @@ export interface FileOperationResult {
   originalPath: string;
   newPath?: string;
   error?: string;
+  /** Text removed from the start of the note (duplicate title removal) */
+  removedContent?: string;
+  /** Text that took the place of `removedContent`, usually empty */
+  replacementContent?: string;
+  /** Provider that generated the title; absent for hand-picked titles */
+  source?: TitleSource;
+  /** Why the note was left unchanged, e.g. duplicate removal needs confirmation */
+  skipped?: string;
+}
+
+/**
+ * A recorded file operation that can be undone
+ */
+export interface RenameJournalEntry extends FileOperationResult {
+  id: string;
+  timestamp: number;
+  batchId?: string;
+  undone: boolean;
 }
 
 /**
@@ -166,8 +481,52 @@ export interface BatchOperationProgress {
   total: number;
   processed: number;
   succeeded: number;
+  skipped: number;
   failed: number;
   current?: string;
+  status?: BatchOperationStatus;
+}
+
+/**
+ * Outcome of one file in a batch run
+ */
+export type BatchItemStatus = 'succeeded' | 'skipped' | 'failed';
+
+/**
+ * Per-file result of a batch run, used for the summary report
+ */
+export interface BatchItemResult {
+  path: string;
+  name: string;
+  status: BatchItemStatus;
+  newPath?: string;
+  /** Why the file was skipped or failed */
+  reason?: string;
+  source?: TitleSource;
+}
+
+/**
+ * Lifecycle of a batch run
+ */
+export type BatchOperationStatus =
+  | 'running'
+  | 'paused'
+  | 'cancelled'
+  | 'completed';
+
+/**
+ * A proposed rename shown in the batch preview
+ */
+export interface BatchRenameItem {
+  path: string;
+  originalName: string;
+  /** File name to rename to, including the title template */
+  proposedName: string;
+  /** Generated title for headings and frontmatter, cleared when the name is edited */
+  title?: string;
+  approved: boolean;
+  error?: string;
+  source?: TitleSource;
 }
 
 /**
@@ -182,13 +541,85 @@ export type PluginEventType =
   | 'batch-completed'
   | 'error-occurred';
 
+/**
+ * Data carried by each plugin event
+ */
+export interface PluginEventDataMap {
+  /** A title was generated for a note, before it is applied */
+  'title-generated': { path: string; title: string; source?: TitleSource };
+  'file-renamed': { oldPath: string; newPath: string; title: string };
+  /** Plugin data was saved; read the new values from the plugin settings */
+  'settings-changed': Record<string, never>;
+  'model-loaded': { provider: AIProvider; models: string[] };
+  'batch-started': { label: string; total: number };
+  'batch-completed': { label: string; progress: BatchOperationProgress };
+  'error-occurred': {
+    code: string;
+    message: string;
+    provider?: AIProvider;
+    context?: unknown;
+  };
+}
+
 /**
  * Plugin event data
  */
-export interface PluginEvent {
-  type: PluginEventType;
+export interface PluginEvent<T extends PluginEventType = PluginEventType> {
+  type: T;
   timestamp: number;
-  data: Record<string, unknown>;
+  data: PluginEventDataMap[T];
+}
+
+/**
+ * Receives plugin events of one type
+ */
+export type PluginEventListener<T extends PluginEventType = PluginEventType> = (
+  event: PluginEvent<T>
+) => void;
+
+/**
+ * Options for {@link TitleGeneratorApi.generateTitle}
+ */
+export interface ApiTitleOptions {
+  /** Rename the note and write the other enabled outputs. Defaults to true. */
+  apply?: boolean;
+  /** Name or id of a profile to use instead of the one matched by the rules */
+  profile?: string;
+}
+
+/**
+ * Public API available to other plugins and scripts as
+ * `app.plugins.getPlugin('title-generator').api`
+ */
+export interface TitleGeneratorApi {
+  /**
+   * Generate a title for a note with the current settings
+   * @returns The generated title and the provider and model that produced it
+   * @throws TitleGeneratorError if the note is empty, the configuration is
+   *   invalid or the request fails; Error if the title cannot be applied,
+   *   e.g. because the note was edited while the title was generated
+   */
+  generateTitle(file: TFile, options?: ApiTitleOptions): Promise<TitleResult>;
+  /**
+   * Suggest titles for text that does not have to be a note, e.g. in a
+   * Templater or QuickAdd script. Nothing is renamed.
+   * Failures are shown as a notice and resolve with an empty list.
+   * @param count Defaults to the "Number of suggestions" setting
+   */
+  suggestTitles(content: string, count?: number): Promise<string[]>;
+  /**
+   * Subscribe to plugin events
+   * @returns A function that removes the listener again
+   */
+  on<T extends PluginEventType>(
+    type: T,
+    listener: PluginEventListener<T>
+  ): () => void;
+  /** Remove a listener added with `on` */
+  off<T extends PluginEventType>(
+    type: T,
+    listener: PluginEventListener<T>
+  ): void;
 }
 
 /**
@@ -230,6 +661,12 @@ export interface DuplicateDetectionResult {
   totalMatches: number;
 }
 
+/**
+ * Answer from the duplicate removal dialog. `always` also removes duplicates
+ * without asking from then on.
+ */
+export type DuplicateRemovalChoice = 'accept' | 'skip' | 'always';
+
 /**
  * Configuration for content modification
  */
@@ -248,11 +685,18 @@ export interface TitleGeneratorSettings {
   openAiApiKey: string;
   anthropicApiKey: string;
   googleApiKey: string;
+  localApiKey: string;
+  localBaseUrl: string;
+  apiKeyStorage: ApiKeyStorage;
+  /** Providers tried in order when the active one fails */
+  fallbackProviders: AIProvider[];
+  fallbackTriggers: FallbackTrigger[];
 
   // Model Settings
   openAiModel: string;
   anthropicModel: string;
   googleModel: string;
+  localModel: string;
 
   // Dynamic Model Caching
   cachedModels: Record<AIProvider, CachedModels>;
@@ -260,17 +704,63 @@ export interface TitleGeneratorSettings {
   // UI Loading State
   modelLoadingState: Record<AIProvider, boolean>;
 
+  // Output Targets
+  renameFile: boolean;
+  writeFrontmatterTitle: boolean;
+  frontmatterTitleKey: string;
+  updateFirstHeading: boolean;
+
+  // Batch Processing
+  batchConcurrency: number;
+  requestsPerMinute: Record<AIProvider, number>;
+  writeBatchReport: boolean;
+  batchReportFolder: string;
+  skipNamedNotes: boolean;
+  skipRecentlyTitledDays: number;
+
+  // Automatic Titles
+  autoTitleEnabled: boolean;
+  autoTitlePattern: string;
+  autoTitleIdleSeconds: number;
+  autoTitleMinLength: number;
+  autoTitleIncludeFolders: string[];
+  autoTitleExcludeFolders: string[];
+  autoTitleCooldownMinutes: number;
+
   // Title Settings
-  lowerCaseTitles: boolean;
-  removeForbiddenChars: boolean;
-  debugMode: boolean;
+  previewBatchRenames: boolean;
+  suggestMultipleTitles: boolean;
+  titleCandidateCount: number;
+  titleCasing: TitleCasing;
+  preserveAcronyms: boolean;
+  titleTemplate: string;
+  logLevel: LogLevel;
+  /** Replace note text and titles in log output with their length */
+  redactLogContent: boolean;
 
   // Prompt and Content Settings
   customPrompt: string;
+  titleLanguage: string;
   temperature: number;
   maxTitleLength: number;
   maxContentLength: number;
+  contentSelection: ContentSelection;
   refinePrompt: string;
+  useStructuredOutput: boolean;
+  streamTitles: boolean;
+
+  // Prompt Profiles
+  profiles: PromptProfile[];
+  profileRules: ProfileRule[];
+
+  // Usage and Budget
+  modelPrices: ModelPrice[];
+  usageHistory: UsageRecord[];
+  budgetLimit: number;
+  budgetPeriod: BudgetPeriod;
+
+  // Rename History
+  renameHistory: RenameJournalEntry[];
 
   // Duplicate Detection Settings
   enableDuplicateRemoval: boolean;
@@ -278,4 +768,5 @@ export interface TitleGeneratorSettings {
   autoRemoveDuplicates: boolean;
   confirmBeforeRemoval: boolean;
   removeOnlyExactMatches: boolean;
+  useAIDuplicateTieBreaker: boolean;
 }
@@ -0,0 +1,177 @@
+import { moment } from 'obsidian';
+
+import { USAGE_CONFIG } from './constants';
+import { getLogger } from './logger';
+import type {
+  AIProvider,
+  BudgetPeriod,
+  ModelPrice,
+  TitleGeneratorSettings,
+  TokenUsage,
+  UsageRecord,
+} from './types';
+
+/**
+ * Token and cost accounting. Usage is summed per day, provider and model and
+ * stored with the plugin data, so spending limits hold across restarts.
+ * Totals update at once; saving them waits until requests pause, so a batch
+ * run does not write the plugin data after every note.
+ */
+export class UsageTracker {
+  private getSettings: () => TitleGeneratorSettings;
+  private saveSettings: () => Promise<void>;
+  private saveTimer: number | null = null;
+
+  constructor(
+    getSettings: () => TitleGeneratorSettings,
+    saveSettings: () => Promise<void>
+  ) {
+    this.getSettings = getSettings;
+    this.saveSettings = saveSettings;
+  }
+
+  /**
+   * Add one request to today's totals for a provider and model and schedule
+   * a save
+   */
+  record(provider: AIProvider, model: string, usage: TokenUsage): void {
+    const settings = this.getSettings();
+    const date = moment().format(USAGE_CONFIG.DATE_FORMAT);
+    const cost = this.estimateCost(model, usage);
+
+    let record = settings.usageHistory.find(
+      (r) => r.date === date && r.provider === provider && r.model === model
+    );
+    if (!record) {
+      record = {
+        date,
+        provider,
+        model,
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+      };
+      settings.usageHistory = [...settings.usageHistory, record];
+    }
+    record.requests += 1;
+    record.inputTokens += usage.inputTokens;
+    record.outputTokens += usage.outputTokens;
+    record.cost += cost;
+
+    const oldest = moment()
+      .subtract(USAGE_CONFIG.HISTORY_DAYS, 'days')
+      .format(USAGE_CONFIG.DATE_FORMAT);
+    settings.usageHistory = settings.usageHistory.filter(
+      (r) => r.date > oldest
+    );
+    this.scheduleSave();
+  }
+
+  /**
+   * Save a pending change now, e.g. when the plugin unloads
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer === null) {
+      return;
+    }
+    window.clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.saveSettings();
+  }
+
+  /**
+   * Find the price for a model: an exact match, or else the longest
+   * configured prefix
+   */
+  getPrice(model: string): ModelPrice | undefined {
+    const name = model.toLowerCase();
+    return this.getSettings()
+      .modelPrices.filter((price) => {
+        const pattern = price.model.trim().toLowerCase();
+        return pattern && name.startsWith(pattern);
+      })
+      .sort((a, b) => b.model.trim().length - a.model.trim().length)[0];
+  }
+
+  /**
+   * Cost of a request in US dollars. Models without a price count as free.
+   */
+  estimateCost(model: string, usage: TokenUsage): number {
+    const price = this.getPrice(model);
+    if (!price) {
+      return 0;
+    }
+    return (
+      (usage.inputTokens * price.inputPerMillion +
+        usage.outputTokens * price.outputPerMillion) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Totals for today or the current month
+   */
+  getTotals(
+    period: BudgetPeriod
+  ): Omit<UsageRecord, 'date' | 'provider' | 'model'> {
+    const prefix = moment().format(
+      period === 'day' ? USAGE_CONFIG.DATE_FORMAT : USAGE_CONFIG.MONTH_FORMAT
+    );
+    return this.getSettings()
+      .usageHistory.filter((r) => r.date.startsWith(prefix))
+      .reduce(
+        (totals, r) => ({
+          requests: totals.requests + r.requests,
+          inputTokens: totals.inputTokens + r.inputTokens,
+          outputTokens: totals.outputTokens + r.outputTokens,
+          cost: totals.cost + r.cost,
+        }),
+        { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+      );
+  }
+
+  /**
+   * Whether the spending limit for the current period has been reached
+   */
+  isBudgetExceeded(): boolean {
+    const { budgetLimit, budgetPeriod } = this.getSettings();
+    return budgetLimit > 0 && this.getTotals(budgetPeriod).cost >= budgetLimit;
+  }
+
+  /**
+   * All records, newest day first
+   */
+  getRecords(): UsageRecord[] {
+    return [...this.getSettings().usageHistory].sort(
+      (a, b) =>
+        b.date.localeCompare(a.date) ||
+        a.provider.localeCompare(b.provider) ||
+        a.model.localeCompare(b.model)
+    );
+  }
+
+  /**
+   * Forget all recorded usage
+   */
+  async clear(): Promise<void> {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.getSettings().usageHistory = [];
+    await this.saveSettings();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.saveSettings().catch((error) =>
+        getLogger().error('Failed to save usage', error)
+      );
+    }, USAGE_CONFIG.SAVE_DELAY);
+  }
+}
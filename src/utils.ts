@@ -1,3 +1,38 @@
+import { RESPONSE_CLEANING } from './constants';
+
+/**
+ * Removes reasoning blocks emitted by "thinking" models.
+ * - Drops complete `<think>...</think>` blocks.
+ * - Drops everything up to a closing tag whose opening tag was omitted.
+ * - Drops a trailing `<think>` block that was never closed.
+ * @param text The raw model output.
+ * @returns The output without reasoning.
+ */
+export function stripThinkingBlocks(text: string): string {
+  let stripped = text.replace(RESPONSE_CLEANING.THINK_TAGS, '');
+  stripped = stripped.replace(RESPONSE_CLEANING.ORPHAN_THINK_CLOSE, '');
+  stripped = stripped.replace(RESPONSE_CLEANING.UNCLOSED_THINK, '');
+  return stripped.trim();
+}
+
+/**
+ * Parses JSON returned as message text.
+ * - Ignores reasoning blocks and a surrounding ``` code fence.
+ * - Returns undefined instead of throwing when the text is not JSON.
+ * @param text The message text.
+ * @returns The parsed value, or undefined.
+ */
+export function parseJsonText(text: string): unknown {
+  const unfenced = stripThinkingBlocks(text)
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Sanitizes a title to make it a valid filename.
  * - Removes characters forbidden by most operating systems.
@@ -39,142 +74,89 @@ export function truncateTitle(title: string, maxLength: number): string {
 }
 
 /**
- * Uses AI to detect if the beginning of the document is similar to the title,
- * contains user prompts/questions, or other content that should be removed.
- * @param title The generated title to compare against.
+ * Sets the first level-1 heading of a note to the given title.
+ * - Skips YAML frontmatter and fenced code blocks.
+ * - Replaces the first `# ` heading if there is one.
+ * - Otherwise inserts a heading right after the frontmatter.
  * @param content The note content.
- * @param aiCallFunction Function to call AI service.
- * @returns Promise with result indicating if content was modified.
+ * @param title The heading text.
+ * @returns The updated content.
  */
-export async function detectAndRemoveDuplicateWithAI(
-  title: string,
-  content: string,
-  aiCallFunction: (prompt: string, content: string) => Promise<string>
-): Promise<{ contentModified: boolean; modifiedContent: string }> {
-  try {
-    // Extract first paragraph or few lines from content
-    const lines = content.split('\n');
-    const firstNonEmptyLines = lines.filter(line => line.trim()).slice(0, 3);
-    const firstParagraph = firstNonEmptyLines.join('\n').trim();
-    
-    if (!firstParagraph || firstParagraph.length < 10) {
-      return { contentModified: false, modifiedContent: content };
-    }
-    
-    // Categorize formatting types
-    const formattingAnalysis = firstNonEmptyLines.map(line => {
-      const trimmed = line.trim();
-      return {
-        original: line,
-        isHeader: trimmed.startsWith('#'),
-        isList: trimmed.startsWith('-') || trimmed.startsWith('*'),
-        isCodeBlock: trimmed.startsWith('```'),
-        hasEmoji: /[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/u.test(trimmed),
-        hasMarkdown: trimmed.includes('**') || trimmed.includes('`') || trimmed.includes('['),
-        isStructural: trimmed.startsWith('#') || trimmed.includes('|') || trimmed.startsWith('```'),
-        contentWithoutFormatting: trimmed.replace(/^[#\-\*\s]+/, '').replace(/[\*\`\[\]]/g, '').replace(/[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu, '').trim()
-      };
-    });
-    
-    // Check if this is structural content that should be preserved
-    const isStructuralContent = formattingAnalysis.some(analysis => 
-      analysis.isStructural || analysis.isCodeBlock
-    );
-    
-    // For list items, check if they're actually content lists vs duplicate text
-    const isContentList = formattingAnalysis.some(analysis => 
-      analysis.isList && analysis.contentWithoutFormatting.length > 20
+export function setFirstHeading(content: string, title: string): string {
+  const lines = content.split('\n');
+  const heading = `# ${title}`;
+
+  let bodyStart = 0;
+  if (lines[0]?.trim() === '---') {
+    const frontmatterEnd = lines.findIndex(
+      (line, index) => index > 0 && line.trim() === '---'
     );
-    
-    if (isStructuralContent || isContentList) {
-      console.log('Detected structural/content formatting, skipping duplicate cleanup to preserve structure');
-      return { contentModified: false, modifiedContent: content };
+    if (frontmatterEnd > 0) {
+      bodyStart = frontmatterEnd + 1;
     }
-    
-    // Enhanced prompt for formatted duplicate detection
-    const prompt = `Analyze if the first paragraph is a genuine duplicate of the title, considering both content and formatting.
-
-Title: "${title}"
-
-First paragraph:
-"${firstParagraph}"
-
-ANALYSIS RULES:
-1. Strip away formatting symbols (# - * ** \` emojis) and compare the core meaning
-2. Only respond "DUPLICATE" if the core content (after removing formatting) literally restates the same information as the title
-3. Respond "DIFFERENT" if:
-   - It's a section header introducing new topics
-   - It's a list of items/content (even if related to title)
-   - It provides specific details, examples, or instructions
-   - It's structural content (tables, code blocks, navigation)
+  }
 
-Examples:
-- Title: "Setup Guide" + First paragraph: "# Setup Guide" → DUPLICATE (just formatted title repeat)
-- Title: "API Keys" + First paragraph: "🔑 **API Configuration**" → DUPLICATE (same concept, just formatted)
-- Title: "Environment Variables" + First paragraph: "- ANTHROPIC_API_KEY - API key for..." → DIFFERENT (actual content list)
-- Title: "Installation" + First paragraph: "### Prerequisites" → DIFFERENT (section introducing new topic)
+  let inFence = false;
+  for (let i = bodyStart; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      inFence = !inFence;
+    } else if (!inFence && /^#\s+/.test(lines[i])) {
+      lines[i] = heading;
+      return lines.join('\n');
+    }
+  }
 
-Focus on semantic meaning, not formatting. Only remove if it's truly redundant after stripping formatting.
+  const nextLine = lines[bodyStart];
+  const inserted = nextLine && nextLine.trim() ? [heading, ''] : [heading];
+  lines.splice(bodyStart, 0, ...inserted);
+  return lines.join('\n');
+}
 
-Only respond with exactly: "DUPLICATE" or "DIFFERENT"
+/**
+ * Describes how the start of a note changed, so the change can be reverted.
+ * Everything after the longest common suffix counts as untouched.
+ * @param original The content before modification.
+ * @param modified The content after modification.
+ * @returns The removed text and the text that replaced it.
+ */
+export function diffLeadingContent(
+  original: string,
+  modified: string
+): { removed: string; replacement: string } {
+  let common = 0;
+  while (
+    common < original.length &&
+    common < modified.length &&
+    original[original.length - 1 - common] ===
+      modified[modified.length - 1 - common]
+  ) {
+    common++;
+  }
 
-Response:`;
+  return {
+    removed: original.slice(0, original.length - common),
+    replacement: modified.slice(0, modified.length - common),
+  };
+}
 
-    const aiResponse = await aiCallFunction(prompt, '');
-    const response = aiResponse.trim().toUpperCase();
-    
-    if (response === 'DUPLICATE') {
-      // For formatted duplicates, be more careful about what we remove
-      const duplicateLineIndices: number[] = [];
-      
-      // Only remove lines that are truly duplicate (not structural)
-      for (let i = 0; i < lines.length && duplicateLineIndices.length < firstNonEmptyLines.length; i++) {
-        const line = lines[i].trim();
-        if (line) {
-          // Check if this line's core content (without formatting) is duplicate
-          const coreContent = line.replace(/^[#\-\*\s]+/, '').replace(/[\*\`\[\]]/g, '').replace(/[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu, '').trim();
-          
-          // Only mark as duplicate if:
-          // 1. Core content is substantial enough to compare
-          // 2. It's not a complex list item or structural element
-          if (coreContent.length > 5 && 
-              !line.includes('|') && 
-              !line.startsWith('```') &&
-              !(line.includes('-') && coreContent.length > 20)) {
-            duplicateLineIndices.push(i);
-          }
-        }
-      }
-      
-      if (duplicateLineIndices.length === 0) {
-        return { contentModified: false, modifiedContent: content };
-      }
-      
-      // Create new lines array without the duplicate content
-      const modifiedLines = [...lines];
-      
-      // Remove lines in reverse order to maintain correct indices
-      for (let i = duplicateLineIndices.length - 1; i >= 0; i--) {
-        const lineIndex = duplicateLineIndices[i];
-        modifiedLines.splice(lineIndex, 1);
-      }
-      
-      // Join and clean up excessive empty lines at the beginning
-      let modifiedContent = modifiedLines.join('\n');
-      modifiedContent = modifiedContent.replace(/^\n+/, '');
-      
-      // Ensure there's at least some content left
-      if (modifiedContent.trim().length === 0) {
-        console.warn('Duplicate removal would result in empty content, keeping original');
-        return { contentModified: false, modifiedContent: content };
-      }
-      
-      return { contentModified: true, modifiedContent };
+/**
+ * Resolves after the given number of milliseconds.
+ * @param ms Delay in milliseconds.
+ * @param signal Resolves early when it is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
     }
-    
-    return { contentModified: false, modifiedContent: content };
-  } catch (error) {
-    console.error('Error in AI duplicate detection:', error);
-    return { contentModified: false, modifiedContent: content };
-  }
-}
\ No newline at end of file
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -1,6 +1,9 @@
-import { VALIDATION_RULES, TITLE_CONFIG, MODEL_CONFIG } from './constants';
+import { getEnvVariableName, resolveApiKey } from './apiKeys';
+import { VALIDATION_RULES, TITLE_CONFIG, MODEL_CONFIG, PROMPT_TEMPLATE_CONFIG } from './constants';
 import { TitleGeneratorError } from './errorHandler';
-import type { AIProvider, TitleGeneratorSettings } from './types';
+import { validateTemplate } from './promptTemplate';
+import { getProviderAdapter, isKnownProvider } from './providers';
+import type { AIProvider, ProviderAdapter, TitleGeneratorSettings } from './types';
 
 /**
  * Validation result interface
@@ -31,7 +34,21 @@ export class ValidationService {
       return result;
     }
 
-    const trimmedKey = apiKey.trim();
+    // `env:NAME` references are checked against the variable's value
+    const variable = getEnvVariableName(apiKey);
+    if (variable !== null) {
+      if (!variable) {
+        result.valid = false;
+        result.errors.push('Environment variable name is missing after "env:"');
+        return result;
+      }
+      if (!resolveApiKey(apiKey)) {
+        result.valid = false;
+        result.errors.push(`Environment variable ${variable} is not set`);
+        return result;
+      }
+    }
+    const trimmedKey = resolveApiKey(apiKey);
     
     if (trimmedKey.length === 0) {
       result.valid = false;
@@ -50,23 +67,7 @@ export class ValidationService {
     }
 
     // Provider-specific validation
-    switch (provider) {
-      case 'openai':
-        if (!trimmedKey.startsWith('sk-')) {
-          result.warnings.push('OpenAI API keys typically start with "sk-"');
-        }
-        break;
-      case 'anthropic':
-        if (!trimmedKey.startsWith('sk-ant-')) {
-          result.warnings.push('Anthropic API keys typically start with "sk-ant-"');
-        }
-        break;
-      case 'google':
-        if (trimmedKey.length < 20) {
-          result.warnings.push('Google API keys are typically longer than 20 characters');
-        }
-        break;
-    }
+    result.warnings.push(...this.getAdapter(provider).validateApiKey(trimmedKey));
 
     return result;
   }
@@ -106,22 +107,105 @@ export class ValidationService {
     }
 
     // Provider-specific validation
-    switch (provider) {
-      case 'openai':
-        if (!trimmedName.includes('gpt')) {
-          result.warnings.push('OpenAI models typically contain "gpt" in the name');
-        }
-        break;
-      case 'anthropic':
-        if (!trimmedName.includes('claude')) {
-          result.warnings.push('Anthropic models typically contain "claude" in the name');
-        }
-        break;
-      case 'google':
-        if (!trimmedName.includes('gemini')) {
-          result.warnings.push('Google models typically contain "gemini" in the name');
-        }
-        break;
+    result.warnings.push(...this.getAdapter(provider).validateModelName(trimmedName));
+
+    return result;
+  }
+
+  /**
+   * Validate the base URL of a self-hosted, OpenAI-compatible server
+   */
+  public validateBaseUrl(baseUrl: string): ValidationResult {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: [],
+    };
+
+    if (!baseUrl || typeof baseUrl !== 'string' || !baseUrl.trim()) {
+      result.valid = false;
+      result.errors.push('Server URL is required');
+      return result;
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(baseUrl.trim());
+    } catch {
+      result.valid = false;
+      result.errors.push('Server URL is not a valid URL');
+      return result;
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      result.valid = false;
+      result.errors.push('Server URL must start with http:// or https://');
+    }
+
+    if (!/\/v\d+\/?$/.test(parsed.pathname)) {
+      result.warnings.push('OpenAI-compatible servers usually expose their API under a versioned path such as /v1');
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate a regular expression used to match note filenames
+   */
+  public validateFilenamePattern(pattern: string): ValidationResult {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: [],
+    };
+
+    if (!pattern || typeof pattern !== 'string' || !pattern.trim()) {
+      result.valid = false;
+      result.errors.push('Filename pattern is required');
+      return result;
+    }
+
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      result.valid = false;
+      result.errors.push(`Filename pattern is not a valid regular expression: ${(error as Error).message}`);
+      return result;
+    }
+
+    if (!pattern.startsWith('^') || !pattern.endsWith('$')) {
+      result.warnings.push('Pattern is not anchored with ^ and $, so it also matches names that only contain it');
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate the prefix/suffix template wrapped around generated titles
+   */
+  public validateTitleTemplate(template: string): ValidationResult {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: [],
+    };
+
+    if (!template || !template.includes('{title}')) {
+      result.valid = false;
+      result.errors.push('Title template must contain {title}');
+      return result;
+    }
+
+    const templateIssues = validateTemplate(template, PROMPT_TEMPLATE_CONFIG.REFINE_VARIABLES);
+    if (templateIssues.errors.length > 0) {
+      result.valid = false;
+      result.errors.push(...templateIssues.errors);
+    }
+    if (templateIssues.unknownVariables.length > 0) {
+      result.valid = false;
+      result.errors.push(
+        `Unknown variables: ${templateIssues.unknownVariables.map((name) => `{${name}}`).join(', ')}`
+      );
     }
 
     return result;
@@ -163,6 +247,22 @@ export class ValidationService {
       result.errors.push(`Prompt must be no more than ${rules.MAX_LENGTH} characters long`);
     }
 
+    // Check template syntax and variable names
+    const templateIssues = validateTemplate(
+      trimmedPrompt,
+      isRefinementPrompt ? PROMPT_TEMPLATE_CONFIG.REFINE_VARIABLES : []
+    );
+    if (templateIssues.errors.length > 0) {
+      result.valid = false;
+      result.errors.push(...templateIssues.errors);
+    }
+    if (templateIssues.unknownVariables.length > 0) {
+      result.valid = false;
+      result.errors.push(
+        `Unknown variables: ${templateIssues.unknownVariables.map((name) => `{${name}}`).join(', ')}`
+      );
+    }
+
     // Check for required placeholders
     if (isRefinementPrompt) {
       const requiredPlaceholders = VALIDATION_RULES.REFINE_PROMPT.REQUIRED_PLACEHOLDERS;
@@ -172,12 +272,10 @@ export class ValidationService {
           result.errors.push(`Refinement prompt must contain placeholder: ${placeholder}`);
         }
       }
-    } else {
-      if (!trimmedPrompt.includes(VALIDATION_RULES.PROMPT.REQUIRED_PLACEHOLDER)) {
+    } else if (!trimmedPrompt.includes(VALIDATION_RULES.PROMPT.REQUIRED_PLACEHOLDER)) {
         result.valid = false;
         result.errors.push(`Prompt must contain placeholder: ${VALIDATION_RULES.PROMPT.REQUIRED_PLACEHOLDER}`);
       }
-    }
 
     return result;
   }
@@ -192,7 +290,7 @@ export class ValidationService {
       warnings: [],
     };
 
-    if (typeof temperature !== 'number' || isNaN(temperature)) {
+    if (typeof temperature !== 'number' || Number.isNaN(temperature)) {
       result.valid = false;
       result.errors.push('Temperature must be a number');
       return result;
@@ -228,7 +326,7 @@ export class ValidationService {
       warnings: [],
     };
 
-    if (typeof length !== 'number' || isNaN(length) || !Number.isInteger(length)) {
+    if (typeof length !== 'number' || Number.isNaN(length) || !Number.isInteger(length)) {
       result.valid = false;
       result.errors.push('Max title length must be a whole number');
       return result;
@@ -264,7 +362,7 @@ export class ValidationService {
       warnings: [],
     };
 
-    if (typeof length !== 'number' || isNaN(length) || !Number.isInteger(length)) {
+    if (typeof length !== 'number' || Number.isNaN(length) || !Number.isInteger(length)) {
       result.valid = false;
       result.errors.push('Max content length must be a whole number');
       return result;
@@ -312,11 +410,22 @@ export class ValidationService {
       if (!apiKeyValidation.valid) {
         result.valid = false;
       }
-    } else {
+    } else if (this.getAdapter(provider).requiresApiKey) {
       result.valid = false;
       result.errors.push(`${provider.toUpperCase()} API key is required`);
     }
 
+    // Validate server URL for self-hosted providers
+    const { baseUrlField } = this.getAdapter(provider);
+    if (baseUrlField) {
+      const baseUrlValidation = this.validateBaseUrl(settings[baseUrlField] as string);
+      result.errors.push(...baseUrlValidation.errors);
+      result.warnings.push(...baseUrlValidation.warnings);
+      if (!baseUrlValidation.valid) {
+        result.valid = false;
+      }
+    }
+
     // Validate model for selected provider
     const modelField = this.getModelField(provider);
     const model = settings[modelField] as string;
@@ -429,36 +538,10 @@ export class ValidationService {
     }
 
     // Provider-specific validation
-    switch (provider) {
-      case 'openai':
-        if (!response.choices || !Array.isArray(response.choices) || response.choices.length === 0) {
-          result.valid = false;
-          result.errors.push('Invalid OpenAI response format');
-        } else if (!response.choices[0].message?.content) {
-          result.valid = false;
-          result.errors.push('OpenAI response missing content');
-        }
-        break;
-        
-      case 'anthropic':
-        if (!response.content || !Array.isArray(response.content) || response.content.length === 0) {
-          result.valid = false;
-          result.errors.push('Invalid Anthropic response format');
-        } else if (!response.content[0].text) {
-          result.valid = false;
-          result.errors.push('Anthropic response missing text');
-        }
-        break;
-        
-      case 'google':
-        if (!response.candidates || !Array.isArray(response.candidates) || response.candidates.length === 0) {
-          result.valid = false;
-          result.errors.push('Invalid Google response format');
-        } else if (!response.candidates[0].content?.parts?.[0]?.text) {
-          result.valid = false;
-          result.errors.push('Google response missing text');
-        }
-        break;
+    const responseErrors = this.getAdapter(provider).validateResponse(response);
+    if (responseErrors.length > 0) {
+      result.valid = false;
+      result.errors.push(...responseErrors);
     }
 
     return result;
@@ -468,40 +551,28 @@ export class ValidationService {
    * Get API key field name for provider
    */
   private getApiKeyField(provider: AIProvider): keyof TitleGeneratorSettings {
-    switch (provider) {
-      case 'openai':
-        return 'openAiApiKey';
-      case 'anthropic':
-        return 'anthropicApiKey';
-      case 'google':
-        return 'googleApiKey';
-      default:
-        throw new TitleGeneratorError(
-          `Unknown provider: ${provider}`,
-          'UNKNOWN_PROVIDER',
-          'Unknown AI provider'
-        );
-    }
+    return this.getAdapter(provider).apiKeyField;
   }
 
   /**
    * Get model field name for provider
    */
   private getModelField(provider: AIProvider): keyof TitleGeneratorSettings {
-    switch (provider) {
-      case 'openai':
-        return 'openAiModel';
-      case 'anthropic':
-        return 'anthropicModel';
-      case 'google':
-        return 'googleModel';
-      default:
-        throw new TitleGeneratorError(
-          `Unknown provider: ${provider}`,
-          'UNKNOWN_PROVIDER',
-          'Unknown AI provider'
-        );
-    }
+    return this.getAdapter(provider).modelField;
+  }
+
+  /**
+   * Look up a provider adapter, reporting unknown providers as validation errors
+   */
+  private getAdapter(provider: AIProvider): ProviderAdapter {
+    if (!isKnownProvider(provider)) {
+      throw new TitleGeneratorError(
+        `Unknown provider: ${provider}`,
+        'UNKNOWN_PROVIDER',
+        'Unknown AI provider'
+      );
+    }
+    return getProviderAdapter(provider);
   }
 }
 
@@ -20,6 +20,11 @@ const TEST_CONFIG = {
     apiKey: '',
     model: 'gemini-1.5-flash-latest',
     url: 'https://generativelanguage.googleapis.com/v1beta/models'
+  },
+  local: {
+    apiKey: '',
+    model: 'llama3.2',
+    url: 'http://localhost:11434/v1'
   }
 };
 
@@ -112,6 +117,39 @@ class AIServiceTester {
     }
   }
 
+  async testLocalModels(baseUrl, apiKey) {
+    const base = (baseUrl.trim() || this.config.local.url).replace(/\/+$/, '');
+    const headers = apiKey.trim() ? { 'Authorization': `Bearer ${apiKey.trim()}` } : {};
+
+    try {
+      const response = await fetch(`${base}/models`, {
+        headers,
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Local server error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json();
+
+      if (!data.data || !Array.isArray(data.data)) {
+        throw new Error('Invalid response format from local server');
+      }
+
+      return data.data
+        .filter((model) => model.id)
+        .map((model) => model.id)
+        .sort();
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        throw new Error('Request timed out. Is the local server running?');
+      }
+      throw error;
+    }
+  }
+
   async testTitleGeneration(provider, model, content, apiKey, url) {
     const prompt = `Generate a concise, descriptive title for the following text. The title must be a maximum of 200 characters: ${content}`;
     
@@ -123,6 +161,8 @@ class AIServiceTester {
           return await this.testAnthropicGeneration(apiKey, model, prompt);
         case 'google':
           return await this.testGoogleGeneration(apiKey, model, prompt);
+        case 'local':
+          return await this.testLocalGeneration(url, apiKey, model, prompt);
         default:
           throw new Error(`Unsupported provider: ${provider}`);
       }
@@ -155,6 +195,37 @@ class AIServiceTester {
     return data.choices[0].message.content.trim();
   }
 
+  async testLocalGeneration(baseUrl, apiKey, model, prompt) {
+    const base = (baseUrl.trim() || this.config.local.url).replace(/\/+$/, '');
+    const headers = { 'Content-Type': 'application/json' };
+    if (apiKey.trim()) {
+      headers['Authorization'] = `Bearer ${apiKey.trim()}`;
+    }
+
+    const response = await fetch(`${base}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.7,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Local server error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    // Reasoning models wrap their chain of thought in <think> blocks
+    return data.choices[0].message.content
+      .replace(/<think>[\s\S]*?<\/think>/g, '')
+      .replace(/^[\s\S]*?<\/think>/, '')
+      .replace(/<think>[\s\S]*$/, '')
+      .trim();
+  }
+
   
 
   
@@ -181,10 +252,11 @@ class CLITester {
     console.log('1. Test OpenAI Models');
     console.log('2. Test Anthropic Models');
     console.log('3. Test Google Models');
-    console.log('4. Test Title Generation');
-    console.log('5. Exit');
+    console.log('4. Test Local (OpenAI-compatible) Models');
+    console.log('5. Test Title Generation');
+    console.log('6. Exit');
     
-    const choice = await this.question('\nSelect option (1-5): ');
+    const choice = await this.question('\nSelect option (1-6): ');
     return choice.trim();
   }
 
@@ -205,6 +277,11 @@ class CLITester {
           const googleKey = await this.question('Enter Google API key: ');
           models = await this.aiService.testGoogleModels(googleKey);
           break;
+        case 'local':
+          const localUrl = await this.question(`Server URL (${this.aiService.config.local.url}): `);
+          const localKey = await this.question('API key (optional): ');
+          models = await this.aiService.testLocalModels(localUrl, localKey);
+          break;
       }
 
       console.log(`\n✅ Found ${models.length} models:`);
@@ -219,7 +296,7 @@ class CLITester {
   async testTitleGeneration() {
     console.log('\n--- Test Title Generation ---');
     
-    const provider = await this.question('Provider (openai/anthropic/google): ');
+    const provider = await this.question('Provider (openai/anthropic/google/local): ');
     const model = await this.question('Model name: ');
     const content = await this.question('Content to generate title for: ');
     
@@ -230,6 +307,7 @@ class CLITester {
       apiKey = await this.question(`Enter ${provider} API key: `);
     } else {
       url = await this.question(`Enter ${provider} URL: `);
+      apiKey = await this.question(`Enter ${provider} API key (optional): `);
     }
     
     try {
@@ -258,9 +336,12 @@ class CLITester {
           await this.testModels('google');
           break;
         case '4':
-          await this.testTitleGeneration();
+          await this.testModels('local');
           break;
         case '5':
+          await this.testTitleGeneration();
+          break;
+        case '6':
           console.log('👋 Goodbye!');
           this.rl.close();
           return;
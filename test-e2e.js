@@ -93,7 +93,6 @@ async function runTest(provider) {
     customPrompt: 'Generate a title for the following content. Max length: {max_length} characters.',
     refinePrompt: 'Refine this title to be under {max_length} characters: {title}',
     lowerCaseTitles: false,
-    removeForbiddenChars: true,
     // Add dummy keys/urls to pass validation
     googleApiKey: 'test-key',
     openAiApiKey: 'test-key',
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { redactSecrets, redactValue, setKnownSecrets } from '../src/apiKeys';
+
+const REDACTED = '[redacted]';
+const LOCAL_KEY = 'my-local-server-key';
+const OPENAI_KEY = 'sk-proj-abcdefghijklmnopqrstuvwx';
+const ANTHROPIC_KEY = 'sk-ant-api03-abcdefghijkl';
+const GOOGLE_KEY = 'AIzaSyA1234567890abcdefghijklmnopqrstu';
+
+afterEach(() => setKnownSecrets([]));
+
+describe('redactSecrets', () => {
+  it('removes configured keys', () => {
+    setKnownSecrets([` ${LOCAL_KEY} `]);
+    expect(redactSecrets(`Request failed for ${LOCAL_KEY}.`)).toBe(
+      `Request failed for ${REDACTED}.`
+    );
+  });
+
+  it('leaves configured values shorter than the minimum length alone', () => {
+    setKnownSecrets(['abc']);
+    expect(redactSecrets('abc is not a key')).toBe('abc is not a key');
+  });
+
+  it('removes key-shaped text that is not configured', () => {
+    expect(
+      redactSecrets(`keys ${OPENAI_KEY}, ${ANTHROPIC_KEY} and ${GOOGLE_KEY}`)
+    ).toBe(`keys ${REDACTED}, ${REDACTED} and ${REDACTED}`);
+  });
+
+  it('removes keys in query strings and bearer headers', () => {
+    expect(
+      redactSecrets(
+        'GET https://example.com/v1/models?key=plainvalue&alt=json Bearer token123'
+      )
+    ).toBe(
+      `GET https://example.com/v1/models?key=${REDACTED}&alt=json Bearer ${REDACTED}`
+    );
+  });
+});
+
+describe('redactValue', () => {
+  it('redacts strings in nested objects and arrays', () => {
+    setKnownSecrets([LOCAL_KEY]);
+    const value = {
+      request: {
+        url: `https://example.com?key=${LOCAL_KEY}`,
+        attempts: [1, `used ${OPENAI_KEY}`],
+      },
+      status: 401,
+    };
+    expect(redactValue(value)).toEqual({
+      request: {
+        url: `https://example.com?key=${REDACTED}`,
+        attempts: [1, `used ${REDACTED}`],
+      },
+      status: 401,
+    });
+    // The original is left untouched
+    expect(value.request.attempts[1]).toBe(`used ${OPENAI_KEY}`);
+  });
+
+  it('blanks properties named like keys', () => {
+    expect(
+      redactValue({
+        apiKey: 'short',
+        openai_api_key: 'anything',
+        Authorization: 'Basic abc',
+        clientSecret: 'xyz',
+        accessToken: 't',
+        model: 'gpt-4o',
+        empty: '',
+        apikey: '',
+      })
+    ).toEqual({
+      apiKey: REDACTED,
+      openai_api_key: REDACTED,
+      Authorization: REDACTED,
+      clientSecret: REDACTED,
+      accessToken: REDACTED,
+      model: 'gpt-4o',
+      empty: '',
+      apikey: '',
+    });
+  });
+
+  it('redacts error messages, stacks and properties', () => {
+    setKnownSecrets([LOCAL_KEY]);
+    const error = Object.assign(new TypeError(`Bad key ${LOCAL_KEY}`), {
+      status: 401,
+      headers: { authorization: `Bearer ${LOCAL_KEY}` },
+    });
+    const redacted = redactValue(error) as Error & Record<string, unknown>;
+
+    expect(redacted).toBeInstanceOf(Error);
+    expect(redacted.name).toBe('TypeError');
+    expect(redacted.message).toBe(`Bad key ${REDACTED}`);
+    expect(redacted.stack).not.toContain(LOCAL_KEY);
+    expect(redacted.status).toBe(401);
+    expect(redacted.headers).toEqual({ authorization: REDACTED });
+    expect(error.message).toContain(LOCAL_KEY);
+  });
+
+  it('handles circular references', () => {
+    const value: Record<string, unknown> = { note: `see ${OPENAI_KEY}` };
+    value.self = value;
+    expect(redactValue(value)).toMatchObject({ note: `see ${REDACTED}` });
+  });
+
+  it('passes other values through', () => {
+    const date = new Date(0);
+    expect(redactValue(date)).toBe(date);
+    expect(redactValue(42)).toBe(42);
+    expect(redactValue(null)).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractNoteContent } from '../src/contentExtractor';
+
+const sentence = (word: string, count: number) =>
+  Array.from({ length: count }, () => word).join(' ');
+
+describe('extractNoteContent', () => {
+  it('cuts the beginning of a long note at a word boundary', () => {
+    const note = sentence('alpha', 100);
+    const extracted = extractNoteContent(note, 50, 'beginning');
+    expect(extracted.length).toBeLessThanOrEqual(50);
+    expect(extracted).toMatch(/^alpha( alpha)*$/);
+  });
+
+  it('truncates paragraphs that do not fit instead of dropping them', () => {
+    const note = [
+      sentence('intro', 10),
+      sentence('middle', 60),
+      '## Details',
+      sentence('detail', 60),
+      sentence('closing', 5),
+    ].join('\n\n');
+
+    const extracted = extractNoteContent(note, 400, 'sample');
+    const [head, , tail] = extracted.split('\n\n[...]\n\n');
+
+    expect(extracted.length).toBeLessThanOrEqual(400);
+    expect(extracted.length).toBeGreaterThan(300);
+    expect(head).toMatch(/^(intro ){9}intro\n\nmiddle/);
+    expect(tail).toMatch(/detail\n\n(closing ){4}closing$/);
+    expect(extracted).toContain('## Details');
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  calculateSimilarity,
+  detectDuplicateTitle,
+  getRemovedLines,
+  removeMatches,
+} from '../src/duplicateDetector';
+
+const TITLE = 'Project planning notes';
+// One, two and four edits away from the title: about 95%, 91% and 82% similar
+const ONE_EDIT = 'Project planing notes';
+const TWO_EDITS = 'Projct planing notes';
+const FOUR_EDITS = 'Projct planin nots';
+
+const noteWith = (firstLine: string) =>
+  `# ${firstLine}\n\nThe agenda for next week.`;
+
+describe('detectDuplicateTitle', () => {
+  it('uses the threshold of each sensitivity', async () => {
+    const cases: Array<[string, Record<string, boolean>]> = [
+      [ONE_EDIT, { strict: true, normal: true, loose: true }],
+      [TWO_EDITS, { strict: false, normal: true, loose: true }],
+      [FOUR_EDITS, { strict: false, normal: false, loose: true }],
+    ];
+    for (const [line, expected] of cases) {
+      for (const [sensitivity, found] of Object.entries(expected)) {
+        const result = await detectDuplicateTitle(TITLE, noteWith(line), {
+          sensitivity: sensitivity as 'strict' | 'normal' | 'loose',
+          exactOnly: false,
+        });
+        expect(result.found, `${line} (${sensitivity})`).toBe(found);
+      }
+    }
+  });
+
+  it('ignores formatting and case when comparing', async () => {
+    const result = await detectDuplicateTitle(
+      TITLE,
+      '**project PLANNING notes!**\n\nBody',
+      { sensitivity: 'strict', exactOnly: false }
+    );
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].similarity).toBe(1);
+    expect(result.matches[0].isMarkdownHeader).toBe(false);
+  });
+
+  it('only accepts exact matches in exact-only mode', async () => {
+    const options = { sensitivity: 'loose' as const, exactOnly: true };
+    expect(
+      (await detectDuplicateTitle(TITLE, noteWith(ONE_EDIT), options)).found
+    ).toBe(false);
+
+    const result = await detectDuplicateTitle(TITLE, noteWith(TITLE), options);
+    expect(result.matches[0]).toMatchObject({
+      lineNumber: 1,
+      isMarkdownHeader: true,
+      headerLevel: 1,
+    });
+  });
+
+  it('asks the tie-breaker about lines just below the threshold', async () => {
+    const tieBreaker = vi.fn(async () => true);
+    const result = await detectDuplicateTitle(TITLE, noteWith(FOUR_EDITS), {
+      sensitivity: 'normal',
+      exactOnly: false,
+      tieBreaker,
+    });
+    expect(tieBreaker).toHaveBeenCalledWith(TITLE, `# ${FOUR_EDITS}`);
+    expect(result.found).toBe(true);
+
+    tieBreaker.mockResolvedValue(false);
+    expect(
+      (
+        await detectDuplicateTitle(TITLE, noteWith(FOUR_EDITS), {
+          sensitivity: 'normal',
+          exactOnly: false,
+          tieBreaker,
+        })
+      ).found
+    ).toBe(false);
+  });
+
+  it('does not ask the tie-breaker about clear matches or unrelated lines', async () => {
+    const tieBreaker = vi.fn(async () => true);
+    await detectDuplicateTitle(
+      TITLE,
+      `# ${TITLE}\nShopping list for the weekend`,
+      { sensitivity: 'normal', exactOnly: false, tieBreaker }
+    );
+    expect(tieBreaker).not.toHaveBeenCalled();
+  });
+
+  it('never matches frontmatter lines', async () => {
+    const content = `---\naliases:\n  - ${TITLE}\ntitle: ${TITLE}\n---\nThe agenda for next week.`;
+    const result = await detectDuplicateTitle(TITLE, content, {
+      sensitivity: 'loose',
+      exactOnly: false,
+    });
+    expect(result.found).toBe(false);
+  });
+
+  it('returns the content without the matched line', async () => {
+    const result = await detectDuplicateTitle(
+      TITLE,
+      `---\ntags: [work]\n---\n# ${TITLE}\n\nThe agenda for next week.`,
+      { sensitivity: 'normal', exactOnly: false }
+    );
+    expect(result.matches[0].lineNumber).toBe(4);
+    expect(result.contentWithoutDuplicates).toBe(
+      '---\ntags: [work]\n---\nThe agenda for next week.'
+    );
+  });
+});
+
+describe('removeMatches', () => {
+  it('refuses a removal that would leave the note empty', async () => {
+    for (const content of [
+      `# ${TITLE}\n\n`,
+      `---\ntags: [work]\n---\n# ${TITLE}`,
+    ]) {
+      const { matches, contentWithoutDuplicates } = await detectDuplicateTitle(
+        TITLE,
+        content,
+        { sensitivity: 'normal', exactOnly: false }
+      );
+      expect(matches).toHaveLength(1);
+      expect(removeMatches(content, matches)).toBeUndefined();
+      expect(contentWithoutDuplicates).toBeUndefined();
+    }
+  });
+
+  it('keeps blank lines when formatting is preserved', async () => {
+    const content = noteWith(TITLE);
+    const { matches } = await detectDuplicateTitle(TITLE, content, {
+      sensitivity: 'normal',
+      exactOnly: false,
+    });
+    const lines = content.split('\n');
+    expect([...getRemovedLines(lines, matches, true)]).toEqual([0]);
+    expect([...getRemovedLines(lines, matches, false)].sort()).toEqual([0, 1]);
+    expect(removeMatches(content, matches, true)).toBe(
+      '\nThe agenda for next week.'
+    );
+  });
+});
+
+describe('calculateSimilarity', () => {
+  it('is one for equal strings and falls with the edit distance', () => {
+    expect(calculateSimilarity('', '')).toBe(1);
+    expect(calculateSimilarity('title', 'title')).toBe(1);
+    expect(calculateSimilarity('title', 'titel')).toBeCloseTo(0.6);
+    expect(calculateSimilarity('abc', 'xyz')).toBe(0);
+  });
+});
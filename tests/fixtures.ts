@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+
+import type {
+  ApiRequestConfig,
+  JsonSchema,
+  TitleGeneratorSettings,
+} from '../src/types';
+
+/**
+ * Read a JSON file from tests/fixtures
+ */
+export function loadFixture(name: string): any {
+  return JSON.parse(
+    readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8')
+  );
+}
+
+/**
+ * A request with its JSON body parsed, for comparing with a fixture
+ */
+export function parseRequest(request: ApiRequestConfig): any {
+  return {
+    ...request,
+    body: request.body ? JSON.parse(request.body as string) : undefined,
+  };
+}
+
+/**
+ * Settings with test keys and models for every provider
+ */
+export function createSettings(
+  overrides: Partial<TitleGeneratorSettings> = {}
+): TitleGeneratorSettings {
+  return {
+    openAiApiKey: 'sk-test-openai',
+    openAiModel: 'gpt-4o-mini',
+    anthropicApiKey: 'sk-ant-test',
+    anthropicModel: 'claude-3-haiku-20240307',
+    googleApiKey: 'google-test-key',
+    googleModel: 'gemini-1.5-flash-latest',
+    localApiKey: '',
+    localModel: 'llama3.2',
+    localBaseUrl: 'http://localhost:11434/v1/',
+    temperature: 0.2,
+    ...overrides,
+  } as TitleGeneratorSettings;
+}
+
+/**
+ * Schema used by the structured request fixtures
+ */
+export const TITLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'The best title' },
+    alternatives: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['title', 'alternatives'],
+  additionalProperties: false,
+};
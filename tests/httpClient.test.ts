@@ -0,0 +1,166 @@
+import type { RequestUrlResponse } from 'obsidian';
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import { initializeErrorHandler } from '../src/errorHandler';
+import { sendApiRequest } from '../src/httpClient';
+import { initializeLogger } from '../src/logger';
+import type { ApiRequestConfig } from '../src/types';
+
+const { requestUrl } = vi.hoisted(() => ({ requestUrl: vi.fn() }));
+
+vi.mock('obsidian', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  requestUrl,
+}));
+
+const REQUEST: ApiRequestConfig = {
+  url: 'https://api.example.com/v1/chat/completions',
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: '{}',
+};
+
+function respond(
+  status: number,
+  headers: Record<string, string> = {}
+): RequestUrlResponse {
+  const json = status < 300 ? { ok: true } : { error: `status ${status}` };
+  return {
+    status,
+    headers,
+    text: JSON.stringify(json),
+    json,
+  } as RequestUrlResponse;
+}
+
+/**
+ * Start a request and record how it settles, so fake timers can be advanced
+ * before the outcome is checked
+ */
+function start(options: { retries?: number; signal?: AbortSignal } = {}) {
+  const outcome: { response?: RequestUrlResponse; error?: any } = {};
+  const done = sendApiRequest(
+    { ...REQUEST, retries: options.retries },
+    'openai',
+    options.signal
+  ).then(
+    (response) => {
+      outcome.response = response;
+    },
+    (error) => {
+      outcome.error = error;
+    }
+  );
+  return { outcome, done };
+}
+
+beforeAll(() => {
+  initializeLogger({ level: 'off', redactContent: true, pluginName: 'test' });
+  initializeErrorHandler();
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  requestUrl.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('sendApiRequest', () => {
+  it('waits the Retry-After seconds of a 429 before retrying', async () => {
+    requestUrl
+      .mockResolvedValueOnce(respond(429, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(respond(200));
+    const { outcome, done } = start();
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(requestUrl).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await done;
+
+    expect(requestUrl).toHaveBeenCalledTimes(2);
+    expect(outcome.response?.status).toBe(200);
+  });
+
+  it('waits until a Retry-After date', async () => {
+    requestUrl
+      .mockResolvedValueOnce(
+        respond(429, { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' })
+      )
+      .mockResolvedValueOnce(respond(200));
+    const { outcome, done } = start();
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(requestUrl).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await done;
+
+    expect(outcome.response?.status).toBe(200);
+  });
+
+  it('retries a server error with backoff', async () => {
+    requestUrl
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(200));
+    const { outcome, done } = start();
+
+    // The first backoff waits between half and all of the base delay
+    await vi.advanceTimersByTimeAsync(499);
+    expect(requestUrl).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(501);
+    await done;
+
+    expect(requestUrl).toHaveBeenCalledTimes(2);
+    expect(outcome.response?.status).toBe(200);
+  });
+
+  it.each([
+    [401, 'UNAUTHORIZED'],
+    [400, 'API_ERROR'],
+  ])('does not retry a %i response', async (status, code) => {
+    requestUrl.mockResolvedValue(respond(status));
+    const { outcome, done } = start();
+    await vi.runAllTimersAsync();
+    await done;
+
+    expect(requestUrl).toHaveBeenCalledTimes(1);
+    expect(outcome.error).toMatchObject({ code, statusCode: status });
+    expect(outcome.error.message).toContain(`status ${status}`);
+  });
+
+  it('gives up once the retries run out', async () => {
+    requestUrl.mockResolvedValue(respond(500));
+    const { outcome, done } = start({ retries: 2 });
+    await vi.runAllTimersAsync();
+    await done;
+
+    expect(requestUrl).toHaveBeenCalledTimes(3);
+    expect(outcome.error).toMatchObject({
+      code: 'SERVER_ERROR',
+      statusCode: 500,
+    });
+  });
+
+  it('stops with a cancelled error when aborted during the backoff wait', async () => {
+    requestUrl.mockResolvedValue(respond(429, { 'Retry-After': '30' }));
+    const controller = new AbortController();
+    const { outcome, done } = start({ signal: controller.signal });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await done;
+
+    expect(requestUrl).toHaveBeenCalledTimes(1);
+    expect(outcome.error).toMatchObject({ code: 'CANCELLED' });
+  });
+});
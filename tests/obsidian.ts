@@ -0,0 +1,39 @@
+/**
+ * Stand-in for the parts of the Obsidian API that modules under test import.
+ * requestUrl is backed by fetch, so requests reach a real (stub) server.
+ */
+
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+
+export async function requestUrl(
+  request: RequestUrlParam
+): Promise<RequestUrlResponse> {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body as string | undefined,
+  });
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  const text = await response.text();
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+
+  return {
+    status: response.status,
+    headers,
+    text,
+    json,
+    arrayBuffer: new TextEncoder().encode(text).buffer,
+  } as RequestUrlResponse;
+}
+
+export class Notice {
+  constructor(readonly message: string) {}
+}
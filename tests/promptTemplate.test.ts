@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderTemplate, validateTemplate } from '../src/promptTemplate';
+
+const lookup = (values: Record<string, string>) => (name: string) =>
+  values[name];
+
+describe('renderTemplate', () => {
+  it('substitutes variables and conditional sections', () => {
+    expect(
+      renderTemplate(
+        '{#if tags}Tagged {tags}.{else}No tags.{/if} Max {max_length}.',
+        lookup({ tags: 'work', max_length: '50' })
+      )
+    ).toBe('Tagged work. Max 50.');
+  });
+
+  it('accepts dotted names and a colon argument', () => {
+    expect(
+      renderTemplate(
+        '{#if frontmatter.project}{frontmatter.project} - {/if}{date:YYYY-MM-DD}',
+        lookup({
+          'frontmatter.project': 'Atlas',
+          'date:YYYY-MM-DD': '2026-10-19',
+        })
+      )
+    ).toBe('Atlas - 2026-10-19');
+  });
+
+  it('leaves JSON examples untouched', () => {
+    const template = 'Answer with {"title":"x"} or {"title": "x"}. {title}';
+    expect(renderTemplate(template, lookup({ title: 'Notes' }))).toBe(
+      'Answer with {"title":"x"} or {"title": "x"}. Notes'
+    );
+    expect(validateTemplate(template, ['title'])).toEqual({
+      errors: [],
+      unknownVariables: [],
+    });
+  });
+});
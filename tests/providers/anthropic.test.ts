@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import { anthropicProvider } from '../../src/providers/anthropic';
+import {
+  createSettings,
+  loadFixture,
+  parseRequest,
+  TITLE_SCHEMA,
+} from '../fixtures';
+
+const PROMPT = 'Title this note';
+
+describe('anthropicProvider request builders', () => {
+  const settings = createSettings();
+
+  it('builds a chat request', () => {
+    expect(
+      parseRequest(anthropicProvider.buildChatRequest(PROMPT, settings))
+    ).toEqual(loadFixture('anthropic/chat-request.json'));
+  });
+
+  it('builds a structured request that forces the title tool', () => {
+    expect(
+      parseRequest(
+        anthropicProvider.buildStructuredRequest!(
+          PROMPT,
+          settings,
+          TITLE_SCHEMA
+        )
+      )
+    ).toEqual(loadFixture('anthropic/structured-request.json'));
+  });
+
+  it('builds a stream request', () => {
+    expect(
+      parseRequest(anthropicProvider.buildStreamRequest!(PROMPT, settings))
+    ).toEqual(loadFixture('anthropic/stream-request.json'));
+  });
+
+  it('builds a models request', () => {
+    expect(anthropicProvider.buildModelsRequest!(settings)).toEqual(
+      loadFixture('anthropic/models-request.json')
+    );
+  });
+});
+
+describe('anthropicProvider response parsers', () => {
+  it('parses a chat response', () => {
+    const response = loadFixture('anthropic/chat-response.json');
+    expect(anthropicProvider.parseChatResponse(response)).toBe(
+      'Weekly Planning Notes'
+    );
+    expect(anthropicProvider.parseUsage!(response)).toEqual({
+      inputTokens: 40,
+      outputTokens: 6,
+    });
+    expect(anthropicProvider.validateResponse(response)).toEqual([]);
+  });
+
+  it('parses the tool input of a structured response', () => {
+    const response = loadFixture('anthropic/structured-response.json');
+    expect(anthropicProvider.parseStructuredResponse!(response)).toEqual({
+      title: 'Weekly Planning Notes',
+      alternatives: ['Plans for the Week'],
+    });
+    expect(anthropicProvider.validateResponse(response)).toEqual([]);
+  });
+
+  it('joins text deltas and reads usage from message_start and message_delta', () => {
+    const events: any[] = loadFixture('anthropic/stream-events.json');
+    expect(
+      events.map((event) => anthropicProvider.parseStreamEvent!(event)).join('')
+    ).toBe('Weekly Planning Notes');
+    expect(anthropicProvider.parseUsage!(events[0])).toEqual({
+      inputTokens: 40,
+      outputTokens: 1,
+    });
+    expect(anthropicProvider.parseUsage!(events[6])).toEqual({
+      inputTokens: 0,
+      outputTokens: 6,
+    });
+  });
+
+  it('throws on a stream error event', () => {
+    expect(() =>
+      anthropicProvider.parseStreamEvent!({
+        type: 'error',
+        error: { type: 'overloaded_error', message: 'Overloaded' },
+      })
+    ).toThrow('Anthropic stream error: Overloaded');
+  });
+
+  it('lists models, sorted', () => {
+    expect(
+      anthropicProvider.parseModelsResponse!(
+        loadFixture('anthropic/models-response.json')
+      )
+    ).toEqual(['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307']);
+  });
+
+  it('rejects a response without content', () => {
+    expect(anthropicProvider.validateResponse({ content: [] })).toEqual([
+      'Invalid Anthropic response format',
+    ]);
+  });
+});
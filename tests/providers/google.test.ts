@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { googleProvider } from '../../src/providers/google';
+import {
+  createSettings,
+  loadFixture,
+  parseRequest,
+  TITLE_SCHEMA,
+} from '../fixtures';
+
+const PROMPT = 'Title this note';
+
+describe('googleProvider request builders', () => {
+  const settings = createSettings();
+
+  it('builds a chat request', () => {
+    expect(
+      parseRequest(googleProvider.buildChatRequest(PROMPT, settings))
+    ).toEqual(loadFixture('google/chat-request.json'));
+  });
+
+  it('builds a structured request with a Gemini response schema', () => {
+    expect(
+      parseRequest(
+        googleProvider.buildStructuredRequest!(PROMPT, settings, TITLE_SCHEMA)
+      )
+    ).toEqual(loadFixture('google/structured-request.json'));
+  });
+
+  it('builds a stream request', () => {
+    expect(
+      parseRequest(googleProvider.buildStreamRequest!(PROMPT, settings))
+    ).toEqual(loadFixture('google/stream-request.json'));
+  });
+
+  it('builds a models request', () => {
+    expect(googleProvider.buildModelsRequest!(settings)).toEqual(
+      loadFixture('google/models-request.json')
+    );
+  });
+});
+
+describe('googleProvider response parsers', () => {
+  it('parses a chat response and bills thinking tokens as output', () => {
+    const response = loadFixture('google/chat-response.json');
+    expect(googleProvider.parseChatResponse(response)).toBe(
+      'Weekly Planning Notes'
+    );
+    expect(googleProvider.parseUsage!(response)).toEqual({
+      inputTokens: 38,
+      outputTokens: 16,
+    });
+    expect(googleProvider.validateResponse(response)).toEqual([]);
+  });
+
+  it('parses a structured response', () => {
+    expect(
+      googleProvider.parseStructuredResponse!(
+        loadFixture('google/structured-response.json')
+      )
+    ).toEqual({
+      title: 'Weekly Planning Notes',
+      alternatives: ['Plans for the Week'],
+    });
+  });
+
+  it('throws when the response was blocked for safety', () => {
+    const response = loadFixture('google/safety-response.json');
+    expect(() => googleProvider.parseChatResponse(response)).toThrow(
+      'Title generation blocked by Google for safety reasons.'
+    );
+    expect(() => googleProvider.parseStreamEvent!(response)).toThrow(
+      'Title generation blocked by Google for safety reasons.'
+    );
+  });
+
+  it('joins stream events', () => {
+    const events: any[] = loadFixture('google/stream-events.json');
+    expect(
+      events.map((event) => googleProvider.parseStreamEvent!(event)).join('')
+    ).toBe('Weekly Planning Notes');
+    expect(googleProvider.parseUsage!(events[1])).toEqual({
+      inputTokens: 38,
+      outputTokens: 4,
+    });
+  });
+
+  it('keeps only models that generate content, without the prefix', () => {
+    expect(
+      googleProvider.parseModelsResponse!(
+        loadFixture('google/models-response.json')
+      )
+    ).toEqual(['gemini-1.5-flash-latest', 'gemini-1.5-pro-latest']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import { localProvider } from '../../src/providers/local';
+import { createSettings, loadFixture, parseRequest } from '../fixtures';
+
+const PROMPT = 'Title this note';
+
+describe('localProvider request builders', () => {
+  const settings = createSettings();
+
+  it('builds a chat request without a key and trims the base URL', () => {
+    expect(
+      parseRequest(localProvider.buildChatRequest(PROMPT, settings))
+    ).toEqual(loadFixture('local/chat-request.json'));
+  });
+
+  it('falls back to the default base URL', () => {
+    expect(
+      localProvider.buildChatRequest(
+        PROMPT,
+        createSettings({ localBaseUrl: '  ' })
+      ).url
+    ).toBe('http://localhost:11434/v1/chat/completions');
+  });
+
+  it('sends a key when one is set', () => {
+    expect(
+      localProvider.buildChatRequest(
+        PROMPT,
+        createSettings({ localApiKey: 'lm-studio' })
+      ).headers
+    ).toEqual({
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer lm-studio',
+    });
+  });
+
+  it('builds a stream request', () => {
+    expect(
+      parseRequest(localProvider.buildStreamRequest!(PROMPT, settings))
+    ).toEqual(loadFixture('local/stream-request.json'));
+  });
+
+  it('builds a models request', () => {
+    expect(localProvider.buildModelsRequest!(settings)).toEqual(
+      loadFixture('local/models-request.json')
+    );
+  });
+});
+
+describe('localProvider response parsers', () => {
+  it('strips reasoning blocks from a chat response', () => {
+    const response = loadFixture('local/chat-response.json');
+    expect(localProvider.parseChatResponse(response)).toBe(
+      'Weekly Planning Notes'
+    );
+    expect(localProvider.parseUsage!(response)).toEqual({
+      inputTokens: 45,
+      outputTokens: 30,
+    });
+    expect(localProvider.validateResponse(response)).toEqual([]);
+  });
+
+  it('lists every model the server offers', () => {
+    expect(
+      localProvider.parseModelsResponse!(
+        loadFixture('local/models-response.json')
+      )
+    ).toEqual(['llama3.2:latest', 'qwen3:8b']);
+  });
+
+  it('rejects a malformed models response', () => {
+    expect(() => localProvider.parseModelsResponse!({ models: [] })).toThrow(
+      'Invalid response format from local server API'
+    );
+  });
+});
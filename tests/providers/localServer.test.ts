@@ -0,0 +1,219 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { initializeErrorHandler } from '../../src/errorHandler';
+import { sendApiRequest } from '../../src/httpClient';
+import { initializeLogger } from '../../src/logger';
+import { localProvider } from '../../src/providers/local';
+import { createSettings, loadFixture } from '../fixtures';
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+type Handler = (request: ReceivedRequest, response: ServerResponse) => void;
+
+/**
+ * OpenAI-compatible stub server that records requests and answers with the
+ * handler queued for each one
+ */
+function startServer(received: ReceivedRequest[], handlers: Handler[]) {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const request = {
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body,
+      };
+      received.push(request);
+      const handler = handlers.shift();
+      if (handler) {
+        handler(request, res);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+  });
+  return new Promise<Server>((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify(body));
+}
+
+describe('localProvider against a stub server', () => {
+  const received: ReceivedRequest[] = [];
+  const handlers: Handler[] = [];
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    initializeLogger({
+      level: 'off',
+      redactContent: true,
+      pluginName: 'Title Generator',
+    });
+    initializeErrorHandler();
+    server = await startServer(received, handlers);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(
+    () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      })
+  );
+
+  beforeEach(() => {
+    received.length = 0;
+    handlers.length = 0;
+  });
+
+  it('sends a chat completion and parses the answer', async () => {
+    handlers.push((request, response) =>
+      sendJson(response, 200, loadFixture('local/chat-response.json'))
+    );
+    const settings = createSettings({
+      localBaseUrl: `${baseUrl}/`,
+      localApiKey: 'lm-studio',
+    });
+
+    const response = await sendApiRequest(
+      localProvider.buildChatRequest('Title this note', settings),
+      'local'
+    );
+
+    expect(received).toHaveLength(1);
+    expect(received[0].method).toBe('POST');
+    expect(received[0].url).toBe('/v1/chat/completions');
+    expect(received[0].headers.authorization).toBe('Bearer lm-studio');
+    expect(JSON.parse(received[0].body)).toEqual({
+      model: 'llama3.2',
+      messages: [{ role: 'user', content: 'Title this note' }],
+      temperature: 0.2,
+    });
+    expect(localProvider.parseChatResponse(response.json)).toBe(
+      'Weekly Planning Notes'
+    );
+  });
+
+  it('lists the models the server offers', async () => {
+    handlers.push((request, response) =>
+      sendJson(response, 200, loadFixture('local/models-response.json'))
+    );
+
+    const response = await sendApiRequest(
+      localProvider.buildModelsRequest!(
+        createSettings({ localBaseUrl: baseUrl })
+      ),
+      'local'
+    );
+
+    expect(received[0].method).toBe('GET');
+    expect(received[0].url).toBe('/v1/models');
+    expect(received[0].headers.authorization).toBeUndefined();
+    expect(localProvider.parseModelsResponse!(response.json)).toEqual([
+      'llama3.2:latest',
+      'qwen3:8b',
+    ]);
+  });
+
+  it('retries a busy server after its Retry-After delay', async () => {
+    handlers.push(
+      (request, response) =>
+        response.writeHead(503, { 'Retry-After': '0' }).end('Model loading'),
+      (request, response) =>
+        sendJson(response, 200, loadFixture('local/chat-response.json'))
+    );
+
+    const response = await sendApiRequest(
+      localProvider.buildChatRequest(
+        'Title this note',
+        createSettings({ localBaseUrl: baseUrl })
+      ),
+      'local'
+    );
+
+    expect(received).toHaveLength(2);
+    expect(response.status).toBe(200);
+  });
+
+  it('does not retry a request that allows no retries', async () => {
+    handlers.push((request, response) =>
+      response.writeHead(503, { 'Retry-After': '0' }).end('Model loading')
+    );
+
+    await expect(
+      sendApiRequest(
+        {
+          ...localProvider.buildChatRequest(
+            'Title this note',
+            createSettings({ localBaseUrl: baseUrl })
+          ),
+          retries: 0,
+        },
+        'local'
+      )
+    ).rejects.toMatchObject({ statusCode: 503 });
+    expect(received).toHaveLength(1);
+  });
+
+  it('stops waiting for a retry when the request is cancelled', async () => {
+    const controller = new AbortController();
+    handlers.push((request, response) => {
+      response.writeHead(503, { 'Retry-After': '30' }).end('Model loading');
+      setTimeout(() => controller.abort(), 10);
+    });
+
+    const start = Date.now();
+    await expect(
+      sendApiRequest(
+        localProvider.buildChatRequest(
+          'Title this note',
+          createSettings({ localBaseUrl: baseUrl })
+        ),
+        'local',
+        controller.signal
+      )
+    ).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(Date.now() - start).toBeLessThan(5000);
+    expect(received).toHaveLength(1);
+  });
+
+  it('reports a rejected key without retrying', async () => {
+    handlers.push((request, response) =>
+      sendJson(response, 401, { error: { message: 'Invalid API key' } })
+    );
+
+    await expect(
+      sendApiRequest(
+        localProvider.buildChatRequest(
+          'Title this note',
+          createSettings({ localBaseUrl: baseUrl })
+        ),
+        'local'
+      )
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED', statusCode: 401 });
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import { openAIProvider } from '../../src/providers/openai';
+import {
+  createSettings,
+  loadFixture,
+  parseRequest,
+  TITLE_SCHEMA,
+} from '../fixtures';
+
+const PROMPT = 'Title this note';
+
+describe('openAIProvider request builders', () => {
+  const settings = createSettings();
+
+  it('builds a chat request', () => {
+    expect(
+      parseRequest(openAIProvider.buildChatRequest(PROMPT, settings))
+    ).toEqual(loadFixture('openai/chat-request.json'));
+  });
+
+  it('builds a structured request with a JSON schema response format', () => {
+    expect(
+      parseRequest(
+        openAIProvider.buildStructuredRequest!(PROMPT, settings, TITLE_SCHEMA)
+      )
+    ).toEqual(loadFixture('openai/structured-request.json'));
+  });
+
+  it('builds a stream request that asks for usage', () => {
+    expect(
+      parseRequest(openAIProvider.buildStreamRequest!(PROMPT, settings))
+    ).toEqual(loadFixture('openai/stream-request.json'));
+  });
+
+  it('builds a models request', () => {
+    expect(openAIProvider.buildModelsRequest!(settings)).toEqual(
+      loadFixture('openai/models-request.json')
+    );
+  });
+});
+
+describe('openAIProvider response parsers', () => {
+  it('parses a chat response', () => {
+    const response = loadFixture('openai/chat-response.json');
+    expect(openAIProvider.parseChatResponse(response)).toBe(
+      'Weekly Planning Notes'
+    );
+    expect(openAIProvider.parseUsage!(response)).toEqual({
+      inputTokens: 42,
+      outputTokens: 5,
+    });
+    expect(openAIProvider.validateResponse(response)).toEqual([]);
+  });
+
+  it('parses a structured response', () => {
+    expect(
+      openAIProvider.parseStructuredResponse!(
+        loadFixture('openai/structured-response.json')
+      )
+    ).toEqual({
+      title: 'Weekly Planning Notes',
+      alternatives: ['Plans for the Week'],
+    });
+  });
+
+  it('treats a refusal as having no answer', () => {
+    const response = loadFixture('openai/refusal-response.json');
+    expect(openAIProvider.parseStructuredResponse!(response)).toBeUndefined();
+    expect(openAIProvider.validateResponse(response)).toEqual([
+      'OpenAI response missing content',
+    ]);
+  });
+
+  it('joins stream events and reads usage from the final chunk', () => {
+    const events: any[] = loadFixture('openai/stream-events.json');
+    expect(
+      events.map((event) => openAIProvider.parseStreamEvent!(event)).join('')
+    ).toBe('Weekly Planning Notes');
+    expect(openAIProvider.parseUsage!(events[events.length - 1])).toEqual({
+      inputTokens: 42,
+      outputTokens: 5,
+    });
+  });
+
+  it('keeps only GPT models, sorted', () => {
+    expect(
+      openAIProvider.parseModelsResponse!(
+        loadFixture('openai/models-response.json')
+      )
+    ).toEqual(['gpt-4o', 'gpt-4o-mini']);
+  });
+
+  it('rejects a malformed models response', () => {
+    expect(() => openAIProvider.parseModelsResponse!({})).toThrow(
+      'Invalid response format from OpenAI API'
+    );
+  });
+});
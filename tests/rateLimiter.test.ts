@@ -0,0 +1,69 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import { initializeErrorHandler } from '../src/errorHandler';
+import { initializeLogger } from '../src/logger';
+import { RateLimiter } from '../src/rateLimiter';
+
+beforeAll(() => {
+  initializeLogger({ level: 'off', redactContent: true, pluginName: 'test' });
+  initializeErrorHandler();
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RateLimiter', () => {
+  it('waits for the window once the limit is reached', async () => {
+    const limiter = new RateLimiter();
+    await limiter.acquire(2);
+    await limiter.acquire(2);
+
+    let acquired = false;
+    const third = limiter.acquire(2).then(() => {
+      acquired = true;
+    });
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_010);
+    await third;
+    expect(acquired).toBe(true);
+  });
+
+  it('stops waiting with a cancelled error when aborted', async () => {
+    const limiter = new RateLimiter();
+    const controller = new AbortController();
+    await limiter.acquire(1);
+
+    const waiting = limiter.acquire(1, controller.signal);
+    const outcome = expect(waiting).rejects.toMatchObject({
+      code: 'CANCELLED',
+    });
+    await vi.advanceTimersByTimeAsync(1_000);
+    controller.abort();
+    await outcome;
+  });
+
+  it('does not claim a slot for an aborted request', async () => {
+    const limiter = new RateLimiter();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(limiter.acquire(1, controller.signal)).rejects.toMatchObject({
+      code: 'CANCELLED',
+    });
+    await limiter.acquire(1);
+  });
+});
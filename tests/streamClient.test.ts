@@ -0,0 +1,74 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import { initializeErrorHandler } from '../src/errorHandler';
+import { initializeLogger } from '../src/logger';
+import { streamApiRequest } from '../src/streamClient';
+import type { ApiRequestConfig } from '../src/types';
+
+const REQUEST: ApiRequestConfig = {
+  url: 'https://api.example.com/v1/chat/completions',
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: '{}',
+};
+
+function stream(body: string) {
+  const events: unknown[] = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => new Response(body, { status: 200 }))
+  );
+  const done = streamApiRequest(REQUEST, 'openai', (event) =>
+    events.push(event)
+  );
+  return { events, done };
+}
+
+beforeAll(() => {
+  initializeLogger({ level: 'off', redactContent: true, pluginName: 'test' });
+  initializeErrorHandler();
+});
+
+beforeEach(() => {
+  // The stream timeout uses the window timers of the Obsidian app
+  vi.stubGlobal('window', globalThis);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamApiRequest', () => {
+  it('passes the JSON payload of each event on', async () => {
+    const { events, done } = stream(
+      'data: {"n":1}\n\ndata: {"n":2}\r\n\r\ndata: [DONE]\n\n'
+    );
+    await done;
+    expect(events).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  it('skips keep-alive messages that are not JSON', async () => {
+    const { events, done } = stream(
+      ': comment\n\ndata: ping\n\ndata: {"n":1}\n\n'
+    );
+    await done;
+    expect(events).toEqual([{ n: 1 }]);
+  });
+
+  it('names the provider when an event is malformed', async () => {
+    const { events, done } = stream('data: {"n":1}\n\ndata: {"n":\n\n');
+    await expect(done).rejects.toMatchObject({
+      code: 'API_ERROR',
+      message: expect.stringContaining('OpenAI stream sent a malformed event'),
+    });
+    expect(events).toEqual([{ n: 1 }]);
+  });
+});
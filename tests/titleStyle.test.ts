@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyTitleCasing, applyTitleTemplate } from '../src/titleStyle';
+
+describe('applyTitleCasing', () => {
+  it('keeps words with inner capitals in title case', () => {
+    expect(
+      applyTitleCasing('syncing notes between iPhone and macOS', 'title', false)
+    ).toBe('Syncing Notes Between iPhone and macOS');
+  });
+
+  it('keeps words with inner capitals in sentence case', () => {
+    expect(
+      applyTitleCasing('Syncing iPhone Notes With macOS', 'sentence', false)
+    ).toBe('Syncing iPhone notes with macOS');
+  });
+
+  it('keeps acronyms only when asked to', () => {
+    expect(applyTitleCasing('the NASA API guide', 'title', true)).toBe(
+      'The NASA API Guide'
+    );
+    expect(applyTitleCasing('the NASA API guide', 'title', false)).toBe(
+      'The Nasa Api Guide'
+    );
+  });
+
+  it('lowercases every word in kebab and snake case', () => {
+    expect(applyTitleCasing('NASA launches iPhone app', 'kebab', true)).toBe(
+      'nasa-launches-iphone-app'
+    );
+    expect(applyTitleCasing('NASA launches iPhone app', 'snake', true)).toBe(
+      'nasa_launches_iphone_app'
+    );
+  });
+});
+
+describe('applyTitleTemplate', () => {
+  it('wraps the title and fills in other variables', () => {
+    expect(
+      applyTitleTemplate('{date} - {title}', 'Weekly Plan', (name) =>
+        name === 'date' ? '2026-10-19' : undefined
+      )
+    ).toBe('2026-10-19 - Weekly Plan');
+  });
+});